@@ -252,9 +252,12 @@ apply_overrides() {
             local key="${override%%=*}"
             local value="${override#*=}"
             
-            # Use jq if available, otherwise skip overrides
+            # Use jq if available, otherwise skip overrides.
+            # Values of fields that are not strings (numbers, booleans, objects)
+            # are parsed as JSON so that they keep their type
             if command -v jq &> /dev/null; then
-                json=$(echo "$json" | jq --arg key "$key" --arg value "$value" '.[$key] = $value')
+                json=$(echo "$json" | jq --arg key "$key" --arg value "$value" \
+                    '.[$key] = (if (.[$key] | type) == "string" then $value else (try ($value | fromjson) catch $value) end)')
             else
                 print_warning "jq not available, skipping override: $override"
             fi
@@ -845,6 +848,10 @@ test_api_request() {
         return 1
     fi
     
+    # Extract control API secret (bearer token for mutating routes)
+    local bot_secret
+    bot_secret=$(echo "$processed_config" | jq -r '.secret // empty')
+    
     # Get available ports for this bot instance
     local port_info
     port_info=$(get_next_bot_ports)
@@ -883,6 +890,7 @@ test_api_request() {
     local api_response
     api_response=$(curl -s -X POST http://localhost:$main_port/stop_record \
         -H "Content-Type: application/json" \
+        ${bot_secret:+-H "Authorization: Bearer $bot_secret"} \
         -d "{\"bot_id\": \"$bot_uuid\"}")
     
     print_info "📡 API Response: $api_response"
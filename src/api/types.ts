@@ -10,11 +10,15 @@ export namespace ApiTypes {
         // Unused key/values
     }
 
+    // Diarization segment, segments of speakers talking over each other
+    // run in parallel
     export type PostableTranscript = {
         speaker: string
         start_time: number
         end_time: number | null
         lang: string | null
+        // Other speakers talking when the segment started
+        concurrent_speakers?: string[]
     }
 
     export type QueryableTranscript = {
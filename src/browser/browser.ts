@@ -1,4 +1,5 @@
 import { BrowserContext, chromium } from '@playwright/test'
+import { Config } from '../config'
 
 export async function openBrowser(
     slowMo: boolean = false,
@@ -9,8 +10,8 @@ export async function openBrowser(
     try {
         console.log('Launching persistent context with exact extension args...')
 
-        // Get Chrome path from environment variable or use default
-        const chromePath = process.env.CHROME_PATH || '/usr/bin/google-chrome'
+        // Get Chrome path from the config (CHROME_PATH) or use default
+        const chromePath = Config.getInstance().get('chrome_path')
         console.log(`🔍 Using Chrome path: ${chromePath}`)
 
         const context = await chromium.launchPersistentContext('', {
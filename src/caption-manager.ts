@@ -0,0 +1,113 @@
+import * as fs from 'fs'
+
+import { ScreenRecorderManager } from './recording/ScreenRecorder'
+import { MeetingStateMachine } from './state-machine/machine'
+import { CaptionSegment } from './types'
+import { PathManager } from './utils/PathManager'
+import { toWebVtt } from './utils/subtitles'
+import { recordingOffset } from './utils/timeline'
+
+// Captions are revised word by word, don't rewrite the files on every update
+const WRITE_DEBOUNCE_MS = 2000
+
+export class CaptionManager {
+    private static instance: CaptionManager | null = null
+    private segments: CaptionSegment[] = []
+    // Caption block id (assigned by the observer) => index in segments
+    private openSegments: Map<number, number> = new Map()
+    private writeTimeout: NodeJS.Timeout | null = null
+    private writeQueue: Promise<void> = Promise.resolve()
+
+    private constructor() {}
+
+    public static getInstance(): CaptionManager {
+        if (!CaptionManager.instance) {
+            CaptionManager.instance = new CaptionManager()
+        }
+        return CaptionManager.instance
+    }
+
+    public static start(): void {
+        CaptionManager.getInstance()
+    }
+
+    public getSegments(): CaptionSegment[] {
+        return [...this.segments]
+    }
+
+    /**
+     * Handle a new or revised caption block
+     */
+    public handleCaptionUpdate(
+        blockId: number,
+        speaker: string,
+        text: string,
+    ): void {
+        // Captions spoken while paused are off the record
+        if (ScreenRecorderManager.getInstance().isPaused()) {
+            return
+        }
+
+        const meetingStartTime = MeetingStateMachine.instance?.getStartTime()
+        const offset =
+            meetingStartTime > 0
+                ? Math.max(0, recordingOffset(Date.now(), meetingStartTime))
+                : 0
+
+        const index = this.openSegments.get(blockId)
+        if (index === undefined) {
+            this.openSegments.set(blockId, this.segments.length)
+            this.segments.push({ speaker, text, start: offset, end: offset })
+        } else {
+            const segment = this.segments[index]
+            segment.text = text
+            segment.end = offset
+        }
+
+        this.scheduleWrite()
+    }
+
+    public async finalize(): Promise<void> {
+        if (this.writeTimeout) {
+            clearTimeout(this.writeTimeout)
+            this.writeTimeout = null
+        }
+        this.openSegments.clear()
+        console.log(
+            `[CaptionManager] ${this.segments.length} caption segment(s) captured`,
+        )
+        await this.writeCaptions()
+    }
+
+    private scheduleWrite(): void {
+        if (this.writeTimeout) {
+            return
+        }
+        this.writeTimeout = setTimeout(() => {
+            this.writeTimeout = null
+            void this.writeCaptions()
+        }, WRITE_DEBOUNCE_MS)
+    }
+
+    private writeCaptions(): Promise<void> {
+        if (this.segments.length === 0) {
+            return this.writeQueue
+        }
+
+        // Serialize writes so the files always hold complete documents
+        const json = JSON.stringify(this.segments, null, 2)
+        const vtt = toWebVtt(this.segments)
+        const pathManager = PathManager.getInstance()
+        this.writeQueue = this.writeQueue.then(() =>
+            Promise.all([
+                fs.promises.writeFile(pathManager.getCaptionsPath(), json),
+                fs.promises.writeFile(pathManager.getCaptionsVttPath(), vtt),
+            ])
+                .then(() => undefined)
+                .catch((e) => {
+                    console.error('Cannot write captions files:', e)
+                }),
+        )
+        return this.writeQueue
+    }
+}
@@ -0,0 +1,72 @@
+import * as fs from 'fs'
+
+import { ScreenRecorderManager } from './recording/ScreenRecorder'
+import { EventBus } from './services/event-bus'
+import { MeetingStateMachine } from './state-machine/machine'
+import { ChatMessage } from './types'
+import { PathManager } from './utils/PathManager'
+import { recordingOffset } from './utils/timeline'
+
+export class ChatManager {
+    private static instance: ChatManager | null = null
+    private messages: ChatMessage[] = []
+    private writeQueue: Promise<void> = Promise.resolve()
+
+    private constructor() {}
+
+    public static getInstance(): ChatManager {
+        if (!ChatManager.instance) {
+            ChatManager.instance = new ChatManager()
+        }
+        return ChatManager.instance
+    }
+
+    public static start(): void {
+        ChatManager.getInstance()
+    }
+
+    public getMessages(): ChatMessage[] {
+        return [...this.messages]
+    }
+
+    public async handleChatMessage(
+        sender: string,
+        text: string,
+    ): Promise<void> {
+        // Messages posted while paused are off the record
+        if (ScreenRecorderManager.getInstance().isPaused()) {
+            console.log('[ChatManager] Recording paused, message not recorded')
+            return
+        }
+
+        const meetingStartTime = MeetingStateMachine.instance?.getStartTime()
+        const message: ChatMessage = {
+            sender,
+            text,
+            timestamp:
+                meetingStartTime > 0
+                    ? Math.max(0, recordingOffset(Date.now(), meetingStartTime))
+                    : 0,
+        }
+        this.messages.push(message)
+        console.log(
+            `[ChatManager] 💬 Chat message #${this.messages.length} at ${message.timestamp.toFixed(1)}s`,
+        )
+
+        EventBus.getInstance().publish('chat_message', message)
+        await this.writeChatLog()
+    }
+
+    private writeChatLog(): Promise<void> {
+        // Serialize writes so the file always holds a complete JSON document
+        const content = JSON.stringify(this.messages, null, 2)
+        this.writeQueue = this.writeQueue.then(() =>
+            fs.promises
+                .writeFile(PathManager.getInstance().getChatLogPath(), content)
+                .catch((e) => {
+                    console.error('Cannot write chat log file:', e)
+                }),
+        )
+        return this.writeQueue
+    }
+}
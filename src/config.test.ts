@@ -0,0 +1,92 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import { Config } from './config'
+
+describe('Config', () => {
+    let configFile: string
+
+    beforeEach(() => {
+        configFile = path.join(
+            fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-')),
+            'bot.json',
+        )
+        fs.writeFileSync(
+            configFile,
+            JSON.stringify({
+                display: ':1',
+                chrome_path: '/opt/chrome',
+                server_port: 9000,
+            }),
+        )
+    })
+
+    afterEach(() => {
+        fs.rmSync(path.dirname(configFile), { recursive: true, force: true })
+    })
+
+    it('uses the defaults without file, environment or flags', () => {
+        const config = new Config([], {})
+
+        expect(config.get('display')).toBe(':99')
+        expect(config.get('server_port')).toBe(8080)
+        expect(config.get('debug_logs')).toBe(false)
+        expect(config.get('params_file')).toBeNull()
+        expect(config.getSource('display')).toBe('default')
+    })
+
+    it('layers the file, the environment and the flags', () => {
+        const config = new Config(
+            ['--config-file=' + configFile, '--chrome-path=/usr/bin/chromium'],
+            { DISPLAY: ':2', SERVER_PORT: '' },
+        )
+
+        expect(config.get('display')).toBe(':2')
+        expect(config.getSource('display')).toBe('env')
+        expect(config.get('chrome_path')).toBe('/usr/bin/chromium')
+        expect(config.getSource('chrome_path')).toBe('flag')
+        expect(config.get('server_port')).toBe(9000)
+        expect(config.getSource('server_port')).toBe('file')
+    })
+
+    it('parses typed values and aliases', () => {
+        const config = new Config(['--debug', '--server_port=3000', 'extra'], {
+            BOT_CONFIG_FILE: configFile,
+        })
+
+        expect(config.get('debug_logs')).toBe(true)
+        expect(config.get('server_port')).toBe(3000)
+        expect(config.get('display')).toBe(':1')
+        expect(() => new Config(['--server-port=abc'], {})).toThrow(
+            'Invalid config server_port from flag',
+        )
+        expect(() => new Config([], { DEBUG_LOGS: 'yes' })).toThrow(
+            'Invalid config debug_logs from env',
+        )
+        expect(
+            new Config([], { REDACT_KEYS: 'session_id, email,' }).get(
+                'redact_keys',
+            ),
+        ).toEqual(['session_id', 'email'])
+    })
+
+    it('reports the effective config with its sources', () => {
+        const effective = new Config(['--params-file=bot.config.json'], {
+            VIRTUAL_MIC: 'mic',
+        }).getEffectiveConfig()
+
+        expect(effective.params_file).toEqual({
+            value: 'bot.config.json',
+            source: 'flag',
+        })
+        expect(effective.virtual_mic).toEqual({ value: 'mic', source: 'env' })
+        expect(effective.display).toEqual({ value: ':99', source: 'default' })
+    })
+
+    it('fails on an unreadable config file', () => {
+        expect(
+            () => new Config(['--config-file=/nonexistent.json'], {}),
+        ).toThrow('Cannot read config file /nonexistent.json')
+    })
+})
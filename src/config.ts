@@ -0,0 +1,325 @@
+import * as fs from 'fs'
+
+export type ConfigSource = 'default' | 'file' | 'env' | 'flag'
+
+// Process settings, the meeting itself is described by MeetingParams
+export type BotConfig = {
+    display: string
+    virtual_speaker_monitor: string
+    virtual_mic: string
+    video_device: string
+    chrome_path: string
+    tesseract_path: string
+    efs_mount_point: string
+    aws_s3_video_bucket: string
+    allowed_origin: string | null
+    server_port: number
+    // Let control requests through when the meeting has no secret
+    allow_unauthenticated_control: boolean
+    debug_logs: boolean
+    // Read the MeetingParams from this JSON file instead of stdin
+    params_file: string | null
+    // Extra key fragments and regular expressions masked in the logs
+    redact_keys: string[]
+    redact_patterns: string[]
+    // Speech-to-text provider endpoints, overridable for self-hosted stand-ins
+    gladia_api_url: string
+    runpod_endpoint_url: string | null
+    // whisper.cpp CLI and ggml model of the Local provider
+    whisper_cpp_path: string
+    whisper_model_path: string | null
+    whisper_threads: number
+    // Where the diarization segments go: api, file and/or webhook
+    transcript_sinks: string[]
+    // Webhook sink URL, defaults to the meeting's bots_webhook_url
+    transcript_webhook_url: string | null
+    // Correct the DOM speaking indicators with the meeting audio
+    speaker_audio_fusion: boolean
+}
+
+type ConfigKey = keyof BotConfig
+
+type SettingDefinition<T> = {
+    default: T
+    // Lists are JSON arrays in the config file, comma separated otherwise
+    type: 'string' | 'number' | 'boolean' | 'list'
+    env?: string
+    // Extra flag names, `--debug` for `--debug_logs`
+    aliases?: string[]
+}
+
+const SETTINGS: { [K in ConfigKey]: SettingDefinition<BotConfig[K]> } = {
+    display: { default: ':99', type: 'string', env: 'DISPLAY' },
+    virtual_speaker_monitor: {
+        default: 'virtual_speaker.monitor',
+        type: 'string',
+        env: 'VIRTUAL_SPEAKER_MONITOR',
+    },
+    virtual_mic: { default: 'virtual_mic', type: 'string', env: 'VIRTUAL_MIC' },
+    video_device: {
+        default: '/dev/video10',
+        type: 'string',
+        env: 'VIDEO_DEVICE',
+    },
+    chrome_path: {
+        default: '/usr/bin/google-chrome',
+        type: 'string',
+        env: 'CHROME_PATH',
+    },
+    tesseract_path: {
+        default: 'tesseract',
+        type: 'string',
+        env: 'TESSERACT_PATH',
+    },
+    efs_mount_point: {
+        default: '/mnt/efs',
+        type: 'string',
+        env: 'EFS_MOUNT_POINT',
+    },
+    aws_s3_video_bucket: {
+        default: '',
+        type: 'string',
+        env: 'AWS_S3_VIDEO_BUCKET',
+    },
+    allowed_origin: { default: null, type: 'string', env: 'ALLOWED_ORIGIN' },
+    server_port: { default: 8080, type: 'number', env: 'SERVER_PORT' },
+    allow_unauthenticated_control: {
+        default: false,
+        type: 'boolean',
+        env: 'ALLOW_UNAUTHENTICATED_CONTROL',
+    },
+    debug_logs: {
+        default: false,
+        type: 'boolean',
+        env: 'DEBUG_LOGS',
+        aliases: ['debug'],
+    },
+    params_file: { default: null, type: 'string', env: 'PARAMS_FILE' },
+    redact_keys: { default: [], type: 'list', env: 'REDACT_KEYS' },
+    redact_patterns: { default: [], type: 'list', env: 'REDACT_PATTERNS' },
+    gladia_api_url: {
+        default: 'https://api.gladia.io',
+        type: 'string',
+        env: 'GLADIA_API_URL',
+    },
+    // https://api.runpod.ai/v2/<endpoint id> of a faster-whisper worker
+    runpod_endpoint_url: {
+        default: null,
+        type: 'string',
+        env: 'RUNPOD_ENDPOINT_URL',
+    },
+    whisper_cpp_path: {
+        default: 'whisper-cli',
+        type: 'string',
+        env: 'WHISPER_CPP_PATH',
+    },
+    whisper_model_path: {
+        default: null,
+        type: 'string',
+        env: 'WHISPER_MODEL_PATH',
+    },
+    whisper_threads: { default: 4, type: 'number', env: 'WHISPER_THREADS' },
+    transcript_sinks: {
+        default: ['api', 'file'],
+        type: 'list',
+        env: 'TRANSCRIPT_SINKS',
+    },
+    transcript_webhook_url: {
+        default: null,
+        type: 'string',
+        env: 'TRANSCRIPT_WEBHOOK_URL',
+    },
+    speaker_audio_fusion: {
+        default: true,
+        type: 'boolean',
+        env: 'SPEAKER_AUDIO_FUSION',
+    },
+}
+
+const CONFIG_FILE_FLAG = 'config_file'
+const CONFIG_FILE_ENV = 'BOT_CONFIG_FILE'
+const SENSITIVE_KEY = /secret|token|password|api_key/i
+
+/**
+ * Merges, by increasing priority, the defaults, the JSON config file given by
+ * `--config-file` or BOT_CONFIG_FILE, the environment variables and the
+ * `--key=value` command line flags. Flags accept dashes or underscores.
+ */
+export class Config {
+    private static instance: Config | null = null
+    private values: Partial<BotConfig> = {}
+    private sources: Partial<Record<ConfigKey, ConfigSource>> = {}
+
+    constructor(
+        argv: string[] = process.argv.slice(2),
+        env: NodeJS.ProcessEnv = process.env,
+    ) {
+        const flags = parseFlags(argv)
+        const configFile = flags[CONFIG_FILE_FLAG] ?? env[CONFIG_FILE_ENV]
+        if (configFile === true) {
+            throw new Error('--config-file requires a path')
+        }
+
+        for (const key of Object.keys(SETTINGS) as ConfigKey[]) {
+            this.assign(key, SETTINGS[key].default, 'default')
+        }
+
+        if (configFile) {
+            for (const [key, value] of Object.entries(
+                readConfigFile(configFile),
+            )) {
+                if (!(key in SETTINGS)) {
+                    console.warn(`Unknown config key in ${configFile}: ${key}`)
+                    continue
+                }
+                this.assign(
+                    key as ConfigKey,
+                    parseValue(key as ConfigKey, value, 'file'),
+                    'file',
+                )
+            }
+        }
+
+        for (const key of Object.keys(SETTINGS) as ConfigKey[]) {
+            const setting: SettingDefinition<unknown> = SETTINGS[key]
+            const envValue = setting.env ? env[setting.env] : undefined
+            if (envValue !== undefined && envValue !== '') {
+                this.assign(key, parseValue(key, envValue, 'env'), 'env')
+            }
+
+            const flagValue = [key, ...(setting.aliases ?? [])]
+                .map((name) => flags[name])
+                .find((value) => value !== undefined)
+            if (flagValue !== undefined) {
+                this.assign(key, parseValue(key, flagValue, 'flag'), 'flag')
+            }
+        }
+    }
+
+    public static getInstance(): Config {
+        if (!Config.instance) {
+            Config.instance = new Config()
+        }
+        return Config.instance
+    }
+
+    public get<K extends ConfigKey>(key: K): BotConfig[K] {
+        return this.values[key] as BotConfig[K]
+    }
+
+    public getSource(key: ConfigKey): ConfigSource {
+        return this.sources[key]
+    }
+
+    /**
+     * Every setting with where it came from, sensitive values masked
+     */
+    public getEffectiveConfig(): Record<
+        string,
+        { value: unknown; source: ConfigSource }
+    > {
+        const effective: Record<
+            string,
+            { value: unknown; source: ConfigSource }
+        > = {}
+        for (const key of Object.keys(SETTINGS) as ConfigKey[]) {
+            const value = this.values[key]
+            effective[key] = {
+                value:
+                    SENSITIVE_KEY.test(key) && value ? '***MASKED***' : value,
+                source: this.sources[key],
+            }
+        }
+        return effective
+    }
+
+    public logEffectiveConfig(): void {
+        const lines = Object.entries(this.getEffectiveConfig()).map(
+            ([key, { value, source }]) =>
+                `  ${key} = ${JSON.stringify(value)} (${source})`,
+        )
+        console.log(`Effective configuration:\n${lines.join('\n')}`)
+    }
+
+    private assign(key: ConfigKey, value: unknown, source: ConfigSource) {
+        ;(this.values as Record<string, unknown>)[key] = value
+        this.sources[key] = source
+    }
+}
+
+/**
+ * `--key=value` and `--key` (true) flags, other arguments are ignored
+ */
+function parseFlags(argv: string[]): Record<string, string | boolean> {
+    const flags: Record<string, string | boolean> = {}
+    for (const arg of argv) {
+        const match = /^--([a-zA-Z][\w-]*)(?:=(.*))?$/.exec(arg)
+        if (match) {
+            flags[match[1].replace(/-/g, '_')] = match[2] ?? true
+        }
+    }
+    return flags
+}
+
+function readConfigFile(configFile: string): Record<string, unknown> {
+    let content: unknown
+    try {
+        content = JSON.parse(fs.readFileSync(configFile, 'utf-8'))
+    } catch (error) {
+        throw new Error(
+            `Cannot read config file ${configFile}: ${(error as Error).message}`,
+        )
+    }
+    if (typeof content !== 'object' || content === null) {
+        throw new Error(`Config file ${configFile} must contain a JSON object`)
+    }
+    return content as Record<string, unknown>
+}
+
+function parseValue(
+    key: ConfigKey,
+    value: unknown,
+    source: ConfigSource,
+): unknown {
+    const { type } = SETTINGS[key]
+    const invalid = () =>
+        new Error(
+            `Invalid config ${key} from ${source}: expected a ${type}, got ${JSON.stringify(value)}`,
+        )
+
+    if (value === null) {
+        return null
+    }
+    switch (type) {
+        case 'boolean':
+            if (typeof value === 'boolean') return value
+            if (value === 'true' || value === '1') return true
+            if (value === 'false' || value === '0') return false
+            throw invalid()
+        case 'number': {
+            const number = typeof value === 'string' ? Number(value) : value
+            if (typeof number !== 'number' || !Number.isFinite(number)) {
+                throw invalid()
+            }
+            return number
+        }
+        case 'list': {
+            const list =
+                typeof value === 'string'
+                    ? value.split(',').map((item) => item.trim())
+                    : value
+            if (
+                !Array.isArray(list) ||
+                list.some((item) => typeof item !== 'string')
+            ) {
+                throw invalid()
+            }
+            return list.filter((item) => item !== '')
+        }
+        default:
+            if (typeof value !== 'string') {
+                throw invalid()
+            }
+            return value
+    }
+}
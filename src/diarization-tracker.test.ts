@@ -0,0 +1,174 @@
+import { DiarizationTracker } from './diarization-tracker'
+import { SpeakerData } from './types'
+
+function speakers(timestamp: number, ...speaking: string[]): SpeakerData[] {
+    return ['Alice', 'Bob', 'Carol'].map((name, id) => ({
+        name,
+        id,
+        timestamp,
+        isSpeaking: speaking.includes(name),
+    }))
+}
+
+describe('Diarization tracker', () => {
+    const T0 = Date.UTC(2024, 0, 1, 10, 0, 0)
+
+    it('keeps a segment open through short pauses until the turn is taken', () => {
+        const tracker = new DiarizationTracker()
+
+        expect(tracker.update(speakers(T0, 'Alice'))).toEqual([
+            {
+                type: 'segment_started',
+                speaker: 'Alice',
+                timestamp: T0,
+                concurrentSpeakers: [],
+            },
+        ])
+        expect(tracker.update(speakers(T0 + 1000))).toEqual([])
+        expect(tracker.update(speakers(T0 + 1500, 'Alice'))).toEqual([])
+        expect(tracker.update(speakers(T0 + 2000))).toEqual([])
+        expect(tracker.update(speakers(T0 + 4000, 'Bob'))).toEqual([
+            {
+                type: 'segment_ended',
+                speaker: 'Alice',
+                timestamp: T0 + 4000,
+                concurrentSpeakers: [],
+            },
+            {
+                type: 'segment_started',
+                speaker: 'Bob',
+                timestamp: T0 + 4000,
+                concurrentSpeakers: [],
+            },
+        ])
+    })
+
+    it('starts a new segment when the speaker talks again after a pause', () => {
+        const tracker = new DiarizationTracker()
+
+        tracker.update(speakers(T0, 'Alice'))
+        tracker.update(speakers(T0 + 1000))
+        expect(tracker.update(speakers(T0 + 2500, 'Alice'))).toEqual([
+            {
+                type: 'segment_ended',
+                speaker: 'Alice',
+                timestamp: T0 + 2500,
+                concurrentSpeakers: [],
+            },
+            {
+                type: 'segment_started',
+                speaker: 'Alice',
+                timestamp: T0 + 2500,
+                concurrentSpeakers: [],
+            },
+        ])
+    })
+
+    it('dates a pause on the stop time of the speaker', () => {
+        const tracker = new DiarizationTracker()
+
+        tracker.update(speakers(T0, 'Alice'))
+        // Stop moved earlier by the audio fusion
+        tracker.update([
+            { name: 'Alice', id: 0, timestamp: T0 + 2000, isSpeaking: false },
+            { name: 'Bob', id: 1, timestamp: T0 + 3000, isSpeaking: false },
+        ])
+        expect(tracker.update(speakers(T0 + 3100, 'Alice'))).toEqual([
+            {
+                type: 'segment_ended',
+                speaker: 'Alice',
+                timestamp: T0 + 3100,
+                concurrentSpeakers: [],
+            },
+            {
+                type: 'segment_started',
+                speaker: 'Alice',
+                timestamp: T0 + 3100,
+                concurrentSpeakers: [],
+            },
+        ])
+    })
+
+    it('opens parallel segments for overlapping speakers', () => {
+        const tracker = new DiarizationTracker()
+
+        tracker.update(speakers(T0, 'Alice'))
+        expect(tracker.update(speakers(T0 + 1000, 'Alice', 'Bob'))).toEqual([
+            {
+                type: 'segment_started',
+                speaker: 'Bob',
+                timestamp: T0 + 1000,
+                concurrentSpeakers: ['Alice'],
+            },
+        ])
+        // Alice goes on after Bob stops, Bob's segment covers the pause
+        expect(tracker.update(speakers(T0 + 3000, 'Alice'))).toEqual([])
+        expect(tracker.update(speakers(T0 + 5000, 'Alice', 'Carol'))).toEqual([
+            {
+                type: 'segment_ended',
+                speaker: 'Bob',
+                timestamp: T0 + 5000,
+                concurrentSpeakers: ['Alice'],
+            },
+            {
+                type: 'segment_started',
+                speaker: 'Carol',
+                timestamp: T0 + 5000,
+                concurrentSpeakers: ['Alice'],
+            },
+        ])
+
+        expect(tracker.getSegments()).toEqual([
+            {
+                speaker: 'Alice',
+                start: T0,
+                end: null,
+                concurrentSpeakers: ['Bob', 'Carol'],
+            },
+            {
+                speaker: 'Bob',
+                start: T0 + 1000,
+                end: T0 + 5000,
+                concurrentSpeakers: ['Alice'],
+            },
+            {
+                speaker: 'Carol',
+                start: T0 + 5000,
+                end: null,
+                concurrentSpeakers: ['Alice'],
+            },
+        ])
+    })
+
+    it('ignores speakers without timestamps', () => {
+        const tracker = new DiarizationTracker()
+
+        expect(
+            tracker.update([
+                { name: 'Alice', id: 0, timestamp: null, isSpeaking: true },
+            ]),
+        ).toEqual([])
+    })
+
+    it('closes the open segments at the end of the meeting', () => {
+        const tracker = new DiarizationTracker()
+        tracker.update(speakers(T0, 'Alice', 'Bob'))
+        tracker.update(speakers(T0 + 3000, 'Alice'))
+
+        expect(tracker.finalize(T0 + 9000)).toEqual([
+            {
+                type: 'segment_ended',
+                speaker: 'Alice',
+                timestamp: T0 + 9000,
+                concurrentSpeakers: ['Bob'],
+            },
+            // Silent since before the recording stopped
+            {
+                type: 'segment_ended',
+                speaker: 'Bob',
+                timestamp: T0 + 3000,
+                concurrentSpeakers: ['Alice'],
+            },
+        ])
+    })
+})
@@ -0,0 +1,179 @@
+import { SpeakerData } from './types'
+import { stopTimes } from './utils/speakerLog'
+
+// Silence after which a speaker talking again starts a new segment
+const PAUSE_BETWEEN_SENTENCES = 1000 // 1 second
+
+export type DiarizationChange = {
+    type: 'segment_started' | 'segment_ended'
+    speaker: string
+    timestamp: number
+    // Other speakers heard during the segment so far
+    concurrentSpeakers: string[]
+}
+
+export type DiarizationSegment = {
+    speaker: string
+    start: number
+    end: number | null
+    // Every other speaker heard during the segment
+    concurrentSpeakers: string[]
+}
+
+type OpenSegment = {
+    index: number
+    // Timestamp the speaker went silent at, null while speaking
+    silentSince: number | null
+}
+
+/**
+ * Turns the speaking flags reported by the speakers observers into
+ * diarization segments. A segment lasts until its speaker starts a new
+ * sentence or someone else takes the turn, so it covers the speaker's
+ * pauses. Speakers talking over each other get parallel segments.
+ */
+export class DiarizationTracker {
+    private static instance: DiarizationTracker | null = null
+    private segments: DiarizationSegment[] = []
+    // Speaker name => their open segment
+    private openSegments: Map<string, OpenSegment> = new Map()
+
+    public static getInstance(): DiarizationTracker {
+        if (!DiarizationTracker.instance) {
+            DiarizationTracker.instance = new DiarizationTracker()
+        }
+        return DiarizationTracker.instance
+    }
+
+    /**
+     * Diff the current speakers against the open segments
+     */
+    public update(speakers: SpeakerData[]): DiarizationChange[] {
+        const changes: DiarizationChange[] = []
+        // Timestamps are only missing until the observer is ready
+        const speaking = new Map(
+            speakers
+                .filter(
+                    (speaker) =>
+                        speaker.isSpeaking === true &&
+                        speaker.timestamp !== null &&
+                        speaker.timestamp !== undefined,
+                )
+                .map((speaker) => [speaker.name, speaker.timestamp]),
+        )
+        const now = Math.max(
+            0,
+            ...speakers.map((speaker) => speaker.timestamp ?? 0),
+        )
+
+        const stopped = stopTimes(speakers)
+        for (const [speaker, open] of this.openSegments) {
+            if (!speaking.has(speaker) && open.silentSince === null) {
+                open.silentSince = stopped.get(speaker) ?? now
+            }
+        }
+
+        for (const [speaker, timestamp] of speaking) {
+            const open = this.openSegments.get(speaker)
+            if (open && open.silentSince === null) {
+                continue
+            }
+            if (
+                open &&
+                timestamp < open.silentSince + PAUSE_BETWEEN_SENTENCES
+            ) {
+                // Same sentence after a short breath
+                open.silentSince = null
+                continue
+            }
+
+            if (open) {
+                this.close(speaker, timestamp, changes)
+            } else {
+                // The turn is taken, close the segments of the silent speakers
+                for (const [other, otherOpen] of this.openSegments) {
+                    if (otherOpen.silentSince !== null) {
+                        this.close(other, timestamp, changes)
+                    }
+                }
+            }
+
+            const concurrentSpeakers = [...speaking.keys()].filter(
+                (name) => name !== speaker,
+            )
+            this.openSegments.set(speaker, {
+                index: this.segments.length,
+                silentSince: null,
+            })
+            this.segments.push({
+                speaker,
+                start: timestamp,
+                end: null,
+                concurrentSpeakers: [...concurrentSpeakers],
+            })
+            changes.push({
+                type: 'segment_started',
+                speaker,
+                timestamp,
+                concurrentSpeakers,
+            })
+        }
+
+        // Record the overlaps on every segment being spoken
+        for (const speaker of speaking.keys()) {
+            const segment = this.segments[this.openSegments.get(speaker).index]
+            for (const other of speaking.keys()) {
+                if (
+                    other !== speaker &&
+                    !segment.concurrentSpeakers.includes(other)
+                ) {
+                    segment.concurrentSpeakers.push(other)
+                }
+            }
+        }
+
+        return changes
+    }
+
+    public getSegments(): DiarizationSegment[] {
+        return this.segments.map((segment) => ({
+            ...segment,
+            concurrentSpeakers: [...segment.concurrentSpeakers],
+        }))
+    }
+
+    /**
+     * Close every open segment when the recording stopped at `stoppedAt`,
+     * the ones of the silent speakers when they went silent
+     */
+    public finalize(stoppedAt: number): DiarizationChange[] {
+        const changes: DiarizationChange[] = []
+        for (const [speaker, open] of [...this.openSegments]) {
+            this.close(
+                speaker,
+                Math.min(open.silentSince ?? stoppedAt, stoppedAt),
+                changes,
+            )
+        }
+        console.log(
+            `[DiarizationTracker] ${this.segments.length} segment(s), ${this.segments.filter((segment) => segment.concurrentSpeakers.length > 0).length} overlapping`,
+        )
+        return changes
+    }
+
+    private close(
+        speaker: string,
+        timestamp: number,
+        changes: DiarizationChange[],
+    ): void {
+        const segment = this.segments[this.openSegments.get(speaker).index]
+        segment.end = timestamp
+        this.openSegments.delete(speaker)
+        changes.push({
+            type: 'segment_ended',
+            speaker,
+            timestamp,
+            concurrentSpeakers: [...segment.concurrentSpeakers],
+        })
+    }
+}
@@ -1,22 +1,49 @@
 import axios from 'axios'
+import {
+    getMeetingAnalytics,
+    summarizeMeetingAnalytics,
+} from './meeting-analytics'
+import { EventBus } from './services/event-bus'
 import { GLOBAL } from './singleton'
+import { MeetingParams } from './types'
+import {
+    getRecordingWindow,
+    hasRecordingWindow,
+    recordingWindowToJson,
+} from './utils/recordingWindow'
 
 export class Events {
     private static EVENTS: Events | null = null
     private sentEvents: Set<string> = new Set()
+    private pendingSends: Set<Promise<void>> = new Set()
 
-    static init() {
-        if (GLOBAL.get().bot_uuid == null) return
-        if (GLOBAL.get().bots_api_key == null) return
-        if (GLOBAL.get().bots_webhook_url == null) return
+    /**
+     * @param params defaults to the validated params, the raw ones are only
+     * used to report invalid params
+     */
+    static init(
+        params: Pick<
+            MeetingParams,
+            'bot_uuid' | 'bots_api_key' | 'bots_webhook_url'
+        > = GLOBAL.get(),
+    ) {
+        if (params.bot_uuid == null) return
 
+        // Without webhook configuration, events are only published locally
         Events.EVENTS = new Events(
-            GLOBAL.get().bot_uuid,
-            GLOBAL.get().bots_api_key,
-            GLOBAL.get().bots_webhook_url,
+            params.bot_uuid,
+            params.bots_api_key,
+            params.bots_webhook_url,
         )
     }
 
+    /**
+     * Wait for the webhooks still being sent, before exiting the process
+     */
+    static async flush() {
+        await Promise.allSettled(Events.EVENTS?.pendingSends ?? [])
+    }
+
     static async apiRequestStop() {
         return Events.EVENTS?.sendOnce('api_request_stop')
     }
@@ -34,7 +61,10 @@ export class Events {
     }
 
     static async inCallRecording(data: { start_time: number }) {
-        return Events.EVENTS?.sendOnce('in_call_recording', data)
+        return Events.EVENTS?.sendOnce('in_call_recording', {
+            ...data,
+            ...scheduledWindow(),
+        })
     }
 
     static async recordingPaused() {
@@ -47,6 +77,38 @@ export class Events {
         Events.EVENTS?.send('recording_resumed')
     }
 
+    static async participantJoined(name: string, timestamp: number) {
+        // Send webhook in parallel - don't wait for completion
+        Events.EVENTS?.send('participant_joined', {
+            participant_name: name,
+            timestamp: new Date(timestamp).toISOString(),
+        })
+    }
+
+    static async participantLeft(name: string, timestamp: number) {
+        // Send webhook in parallel - don't wait for completion
+        Events.EVENTS?.send('participant_left', {
+            participant_name: name,
+            timestamp: new Date(timestamp).toISOString(),
+        })
+    }
+
+    static async screenshareStarted(presenter: string, timestamp: number) {
+        // Send webhook in parallel - don't wait for completion
+        Events.EVENTS?.send('screenshare_started', {
+            presenter_name: presenter,
+            timestamp: new Date(timestamp).toISOString(),
+        })
+    }
+
+    static async screenshareStopped(presenter: string, timestamp: number) {
+        // Send webhook in parallel - don't wait for completion
+        Events.EVENTS?.send('screenshare_stopped', {
+            presenter_name: presenter,
+            timestamp: new Date(timestamp).toISOString(),
+        })
+    }
+
     static async callEnded() {
         return Events.EVENTS?.sendOnce('call_ended')
     }
@@ -68,10 +130,50 @@ export class Events {
         return Events.EVENTS?.sendOnce('waiting_room_timeout')
     }
 
+    static async nooneJoinedTimeout() {
+        return Events.EVENTS?.sendOnce('noone_joined_timeout')
+    }
+
+    static async everyoneLeftTimeout() {
+        return Events.EVENTS?.sendOnce('everyone_left_timeout')
+    }
+
+    static async silenceTimeout() {
+        return Events.EVENTS?.sendOnce('silence_timeout')
+    }
+
+    static async onlyBotsRemaining() {
+        return Events.EVENTS?.sendOnce('only_bots_remaining')
+    }
+
+    static async namedParticipantLeft(name: string) {
+        return Events.EVENTS?.sendOnce('named_participant_left', { name })
+    }
+
+    static async scheduledEndReached() {
+        return Events.EVENTS?.sendOnce('scheduled_end_reached')
+    }
+
+    static async inCallNotRecordingTimeout() {
+        return Events.EVENTS?.sendOnce('in_call_not_recording_timeout')
+    }
+
+    static async inCallRecordingTimeout() {
+        return Events.EVENTS?.sendOnce('in_call_recording_timeout')
+    }
+
+    static async recordingPermissionDeniedTimeout() {
+        return Events.EVENTS?.sendOnce('recording_permission_denied_timeout')
+    }
+
     static async invalidMeetingUrl() {
         return Events.EVENTS?.sendOnce('invalid_meeting_url')
     }
 
+    static async invalidParams(errors: string[]) {
+        return Events.EVENTS?.sendOnce('invalid_params', { errors })
+    }
+
     static async meetingError(error: Error) {
         return Events.EVENTS?.sendOnce('meeting_error', {
             error_message: error.message,
@@ -81,7 +183,10 @@ export class Events {
 
     // Final webhook events (replacing sendWebhookOnce)
     static async recordingSucceeded() {
-        return Events.EVENTS?.sendOnce('recording_succeeded')
+        return Events.EVENTS?.sendOnce('recording_succeeded', {
+            ...scheduledWindow(),
+            ...analyticsSummary(),
+        })
     }
 
     static async recordingFailed(errorMessage: string) {
@@ -93,8 +198,8 @@ export class Events {
 
     private constructor(
         private botId: string,
-        private apiKey: string,
-        private webhookUrl: string,
+        private apiKey: string | null,
+        private webhookUrl: string | null,
     ) {}
 
     /**
@@ -112,13 +217,22 @@ export class Events {
 
         this.sentEvents.add(code)
         // Send webhook in parallel - don't wait for completion
-        this.send(code, additionalData)
+        const sending = this.send(code, additionalData)
+        this.pendingSends.add(sending)
+        sending.finally(() => this.pendingSends.delete(sending))
     }
 
     private async send(
         code: string,
         additionalData: Record<string, any> = {},
     ): Promise<void> {
+        EventBus.getInstance().publish('status_change', {
+            code,
+            ...additionalData,
+        })
+
+        if (this.webhookUrl == null || this.apiKey == null) return
+
         try {
             await axios({
                 method: 'POST',
@@ -157,3 +271,21 @@ export class Events {
         }
     }
 }
+
+/**
+ * The scheduled recording window, when the meeting has one
+ */
+function scheduledWindow(): Record<string, unknown> {
+    const window = getRecordingWindow(GLOBAL.get())
+    return hasRecordingWindow(window)
+        ? { recording_window: recordingWindowToJson(window) }
+        : {}
+}
+
+/**
+ * The talk-time summary, once the meeting analytics are computed
+ */
+function analyticsSummary(): Record<string, unknown> {
+    const analytics = getMeetingAnalytics()
+    return analytics ? { analytics: summarizeMeetingAnalytics(analytics) } : {}
+}
@@ -1,4 +1,7 @@
+import * as fs from 'fs'
+
 import { Api } from './api/methods'
+import { Config } from './config'
 import { Events } from './events'
 import { server } from './server'
 import { GLOBAL } from './singleton'
@@ -10,9 +13,14 @@ import {
     uploadLogsToS3,
 } from './utils/Logger'
 import { PathManager } from './utils/PathManager'
+import { Redactor } from './utils/Redactor'
 
-import { getErrorMessageFromCode } from './state-machine/types'
+import {
+    getErrorMessageFromCode,
+    MeetingEndReason,
+} from './state-machine/types'
 import { MeetingParams } from './types'
+import { validateMeetingParams } from './utils/validateMeetingParams'
 
 import { exit } from 'process'
 
@@ -26,9 +34,17 @@ setupConsoleLogger()
 // Setup crash handlers to upload logs in case of unexpected exit
 setupExitHandler()
 
-// Configuration to enable/disable DEBUG logs
-export const DEBUG_LOGS =
-    process.argv.includes('--debug') || process.env.DEBUG_LOGS === 'true'
+// Defaults < config file < environment < --key=value flags
+Config.getInstance().logEffectiveConfig()
+
+// Mask the configured secrets in every log line, uploaded log and snapshot
+Redactor.init(
+    Config.getInstance().get('redact_keys'),
+    Config.getInstance().get('redact_patterns'),
+)
+
+// Configuration to enable/disable DEBUG logs (--debug or DEBUG_LOGS=true)
+export const DEBUG_LOGS = Config.getInstance().get('debug_logs')
 if (DEBUG_LOGS) {
     console.log('🐛 DEBUG mode activated - speakers debug logs will be shown')
     // Dynamically import page-logger to enable page logs only when DEBUG_LOGS is true
@@ -45,35 +61,90 @@ if (DEBUG_LOGS) {
 // ========================================
 
 /**
- * Read and parse meeting parameters from stdin
+ * Read the raw meeting parameters from stdin
  */
-async function readFromStdin(): Promise<MeetingParams> {
+async function readFromStdin(): Promise<string> {
     return new Promise((resolve) => {
         let data = ''
         process.stdin.on('data', (chunk) => {
             data += chunk
         })
 
-        process.stdin.on('end', () => {
-            try {
-                const params = JSON.parse(data) as MeetingParams
-
-                // Detect the meeting provider
-                params.meetingProvider = detectMeetingProvider(
-                    params.meeting_url,
-                )
-                GLOBAL.set(params)
-                PathManager.getInstance().initializePaths()
-                resolve(params)
-            } catch (error) {
-                console.error('Failed to parse JSON from stdin:', error)
-                console.error('Raw data was:', JSON.stringify(data))
-                process.exit(1)
-            }
-        })
+        process.stdin.on('end', () => resolve(data))
     })
 }
 
+/**
+ * Read, parse and validate the meeting parameters, from the params_file
+ * config when set, otherwise from stdin
+ */
+async function readMeetingParams(): Promise<MeetingParams> {
+    const paramsFile = Config.getInstance().get('params_file')
+    let data: string
+    try {
+        data = paramsFile
+            ? await fs.promises.readFile(paramsFile, 'utf-8')
+            : await readFromStdin()
+    } catch (error) {
+        console.error(`Failed to read params file ${paramsFile}:`, error)
+        process.exit(1)
+    }
+
+    let params: MeetingParams
+    try {
+        params = JSON.parse(data) as MeetingParams
+    } catch (error) {
+        console.error(
+            `Failed to parse JSON from ${paramsFile ?? 'stdin'}:`,
+            error,
+        )
+        console.error('Raw data was:', JSON.stringify(data))
+        process.exit(1)
+    }
+
+    const errors = validateMeetingParams(params)
+    if (errors.length > 0) {
+        await handleInvalidParams(params, errors)
+        process.exit(1)
+    }
+
+    try {
+        // Detect the meeting provider
+        params.meetingProvider = detectMeetingProvider(params.meeting_url)
+        GLOBAL.set(params)
+        PathManager.getInstance().initializePaths()
+        return params
+    } catch (error) {
+        console.error('Failed to initialize meeting params:', error)
+        process.exit(1)
+    }
+}
+
+/**
+ * Report every invalid param at once with the failure webhook, the state
+ * machine never starts
+ */
+async function handleInvalidParams(
+    params: MeetingParams,
+    errors: string[],
+): Promise<void> {
+    console.error(`Invalid meeting params:\n  - ${errors.join('\n  - ')}`)
+    GLOBAL.setError(
+        MeetingEndReason.InvalidParams,
+        `Invalid parameters: ${errors.join('; ')}`,
+    )
+
+    // Best effort, the webhook params may be the invalid ones
+    try {
+        Events.init(params)
+        await Events.invalidParams(errors)
+        await Events.recordingFailed(GLOBAL.getErrorMessage())
+        await Events.flush()
+    } catch (error) {
+        console.error('Failed to send invalid params webhook:', error)
+    }
+}
+
 /**
  * Handle successful recording completion
  */
@@ -135,24 +206,11 @@ async function handleFailedRecording(): Promise<void> {
  * - PascalCase => Classes
  */
 ;(async () => {
-    const meetingParams = await readFromStdin()
+    const meetingParams = await readMeetingParams()
 
     try {
-        // Log all meeting parameters (masking sensitive data)
-        const logParams = { ...meetingParams }
-
-        // Mask sensitive data for security
-        if (logParams.user_token) logParams.user_token = '***MASKED***'
-        if (logParams.bots_api_key) logParams.bots_api_key = '***MASKED***'
-        if (logParams.speech_to_text_api_key)
-            logParams.speech_to_text_api_key = '***MASKED***'
-        if (logParams.zoom_sdk_pwd) logParams.zoom_sdk_pwd = '***MASKED***'
-        if (logParams.secret) logParams.secret = '***MASKED***'
-
-        console.log(
-            'Received meeting parameters:',
-            JSON.stringify(logParams, null, 2),
-        )
+        // Log all meeting parameters, the logger masks the sensitive ones
+        console.log('Received meeting parameters:', meetingParams)
 
         console.log('About to redirect logs to bot:', meetingParams.bot_uuid)
         console.log('Logs redirected successfully')
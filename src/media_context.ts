@@ -1,10 +1,11 @@
 import { ChildProcess, spawn } from 'child_process'
 import internal from 'stream'
+import { Config } from './config'
 
 // sudo apt install linux-modules-extra-`uname -r`
-// The env variable VIRTUAL_MIC is used to set the virtual mic name. It needs to be prefixed with 'pulse:'
-const MICRO_DEVICE: string = `pulse:${process.env.VIRTUAL_MIC || 'virtual_mic'}` // pulseaudio virtual mic
-const CAMERA_DEVICE: string = process.env.VIDEO_DEVICE || '/dev/video10'
+// The virtual_mic config (VIRTUAL_MIC) is used to set the virtual mic name. It needs to be prefixed with 'pulse:'
+const MICRO_DEVICE: string = `pulse:${Config.getInstance().get('virtual_mic')}` // pulseaudio virtual mic
+const CAMERA_DEVICE: string = Config.getInstance().get('video_device')
 
 // This abstract claas contains the current ffmpeg process
 // A derived class must implement play and stop methods
@@ -0,0 +1,112 @@
+import {
+    computeMeetingAnalytics,
+    parseSoundLog,
+    summarizeMeetingAnalytics,
+    toTurns,
+} from './meeting-analytics'
+
+describe('Meeting analytics', () => {
+    const T0 = Date.UTC(2024, 0, 1, 10, 0, 0)
+    const at = (seconds: number) => T0 + seconds * 1000
+
+    it('parses the sound levels log', () => {
+        const log = [
+            '2024-01-01T10:00:05.000Z,0',
+            '2024-01-01T10:00:10.000Z,42',
+            'garbage',
+            '',
+        ].join('\n')
+
+        expect(parseSoundLog(log)).toEqual([
+            { timestamp: at(5), level: 0 },
+            { timestamp: at(10), level: 42 },
+        ])
+    })
+
+    it('keeps short pauses in the turn unless someone else speaks', () => {
+        const turns = toTurns([
+            { speaker: 'Alice', start: at(0), end: at(4) },
+            { speaker: 'Alice', start: at(5), end: at(8) },
+            { speaker: 'Bob', start: at(8.5), end: at(9) },
+            { speaker: 'Alice', start: at(9.5), end: at(12) },
+        ])
+
+        expect(
+            turns.map(({ speaker, start, end, talkMs }) => ({
+                speaker,
+                start,
+                end,
+                talkMs,
+            })),
+        ).toEqual([
+            { speaker: 'Alice', start: at(0), end: at(8), talkMs: 7000 },
+            { speaker: 'Bob', start: at(8.5), end: at(9), talkMs: 500 },
+            { speaker: 'Alice', start: at(9.5), end: at(12), talkMs: 2500 },
+        ])
+    })
+
+    it('computes talk time, turns, monologues and interruptions', () => {
+        const analytics = computeMeetingAnalytics(
+            [
+                // Before the recording started, not counted
+                { speaker: 'Carol', start: at(-10), end: at(-5) },
+                { speaker: 'Alice', start: at(0), end: at(30) },
+                // Bob cuts Alice off
+                { speaker: 'Bob', start: at(25), end: at(35) },
+                { speaker: 'Alice', start: at(40), end: at(50) },
+            ],
+            [
+                { timestamp: at(10), level: 30 },
+                { timestamp: at(36), level: 2 },
+                { timestamp: at(45), level: 25 },
+                { timestamp: at(55), level: 0 },
+            ],
+            T0,
+            at(60),
+        )
+
+        expect(analytics).toEqual({
+            duration_seconds: 60,
+            total_talk_time_seconds: 50,
+            silence_ratio: 0.5,
+            participants: [
+                {
+                    name: 'Alice',
+                    talk_time_seconds: 40,
+                    talk_percentage: 80,
+                    turns: 2,
+                    longest_monologue_seconds: 30,
+                    interruptions: 0,
+                    interrupted: 1,
+                },
+                {
+                    name: 'Bob',
+                    talk_time_seconds: 10,
+                    talk_percentage: 20,
+                    turns: 1,
+                    longest_monologue_seconds: 10,
+                    interruptions: 1,
+                    interrupted: 0,
+                },
+            ],
+        })
+        expect(summarizeMeetingAnalytics(analytics)).toEqual({
+            duration_seconds: 60,
+            silence_ratio: 0.5,
+            interruptions: 1,
+            participants: [
+                { name: 'Alice', talk_time_seconds: 40, talk_percentage: 80 },
+                { name: 'Bob', talk_time_seconds: 10, talk_percentage: 20 },
+            ],
+        })
+    })
+
+    it('has no silence ratio without sound levels', () => {
+        expect(computeMeetingAnalytics([], [], T0, at(10))).toEqual({
+            duration_seconds: 10,
+            total_talk_time_seconds: 0,
+            silence_ratio: null,
+            participants: [],
+        })
+    })
+})
@@ -0,0 +1,275 @@
+import * as fs from 'fs'
+
+import { ScreenRecorderManager } from './recording/ScreenRecorder'
+import { MEETING_CONSTANTS } from './state-machine/constants'
+import { PathManager } from './utils/PathManager'
+import { parseSpeakerLog, SpeakerInterval } from './utils/speakerLog'
+import { recordingOffset } from './utils/timeline'
+
+// A speaker resuming within this delay, nobody else starting meanwhile,
+// keeps the same turn
+const TURN_GAP_MS = 2000
+
+export type SoundSample = {
+    timestamp: number // ms
+    level: number // 0-100
+}
+
+export type ParticipantAnalytics = {
+    name: string
+    talk_time_seconds: number
+    talk_percentage: number // share of the whole talk time
+    turns: number
+    longest_monologue_seconds: number
+    interruptions: number // turns started over another speaker
+    interrupted: number // turns another speaker started over
+}
+
+export type MeetingAnalytics = {
+    duration_seconds: number
+    total_talk_time_seconds: number
+    silence_ratio: number | null // null without sound levels
+    participants: ParticipantAnalytics[]
+}
+
+// Summary sent with the recording_succeeded event
+export type MeetingAnalyticsSummary = {
+    duration_seconds: number
+    silence_ratio: number | null
+    interruptions: number
+    participants: Pick<
+        ParticipantAnalytics,
+        'name' | 'talk_time_seconds' | 'talk_percentage'
+    >[]
+}
+
+type Turn = SpeakerInterval & {
+    talkMs: number
+}
+
+var MEETING_ANALYTICS: MeetingAnalytics | null = null
+
+/**
+ * Samples of `sound_levels.log`, one `ISO timestamp,level` per line
+ */
+export function parseSoundLog(content: string): SoundSample[] {
+    const samples: SoundSample[] = []
+    for (const line of content.split('\n')) {
+        const [date, level] = line.trim().split(',')
+        const timestamp = Date.parse(date)
+        if (Number.isNaN(timestamp) || level === undefined) {
+            continue
+        }
+        samples.push({ timestamp, level: Number(level) })
+    }
+    return samples
+}
+
+/**
+ * Merge the speaking intervals of each speaker into turns, a short pause
+ * not taken by anybody else staying in the turn
+ */
+export function toTurns(intervals: SpeakerInterval[]): Turn[] {
+    const sorted = [...intervals].sort((a, b) => a.start - b.start)
+    const turns: Turn[] = []
+    // Speaker name => their last turn
+    const lastTurns = new Map<string, Turn>()
+
+    for (const interval of sorted) {
+        const last = lastTurns.get(interval.speaker)
+        const resumes =
+            last &&
+            interval.start - last.end <= TURN_GAP_MS &&
+            !sorted.some(
+                (other) =>
+                    other.speaker !== interval.speaker &&
+                    other.start > last.end &&
+                    other.start < interval.start,
+            )
+        if (resumes) {
+            last.end = Math.max(last.end, interval.end)
+            last.talkMs += interval.end - interval.start
+            continue
+        }
+        const turn = { ...interval, talkMs: interval.end - interval.start }
+        turns.push(turn)
+        lastTurns.set(interval.speaker, turn)
+    }
+    return turns
+}
+
+/**
+ * Talk time, turns, monologues and interruptions of each participant over
+ * the [start, end] range of the meeting, in ms
+ */
+export function computeMeetingAnalytics(
+    intervals: SpeakerInterval[],
+    soundSamples: SoundSample[],
+    start: number,
+    end: number,
+): MeetingAnalytics {
+    const clipped = intervals
+        .map((interval) => ({
+            speaker: interval.speaker,
+            start: Math.max(interval.start, start),
+            end: Math.min(interval.end, end),
+        }))
+        .filter((interval) => interval.end > interval.start)
+    const turns = toTurns(clipped)
+
+    const participants = new Map<string, ParticipantAnalytics>()
+    const participant = (name: string) => {
+        if (!participants.has(name)) {
+            participants.set(name, {
+                name,
+                talk_time_seconds: 0,
+                talk_percentage: 0,
+                turns: 0,
+                longest_monologue_seconds: 0,
+                interruptions: 0,
+                interrupted: 0,
+            })
+        }
+        return participants.get(name)
+    }
+
+    let totalTalkMs = 0
+    for (const turn of turns) {
+        const stats = participant(turn.speaker)
+        stats.talk_time_seconds += turn.talkMs / 1000
+        stats.turns++
+        stats.longest_monologue_seconds = Math.max(
+            stats.longest_monologue_seconds,
+            (turn.end - turn.start) / 1000,
+        )
+        totalTalkMs += turn.talkMs
+
+        for (const other of turns) {
+            if (
+                other.speaker !== turn.speaker &&
+                other.start < turn.start &&
+                other.end > turn.start
+            ) {
+                stats.interruptions++
+                participant(other.speaker).interrupted++
+            }
+        }
+    }
+
+    for (const stats of participants.values()) {
+        stats.talk_percentage =
+            totalTalkMs > 0
+                ? round((stats.talk_time_seconds * 1000 * 100) / totalTalkMs, 1)
+                : 0
+        stats.talk_time_seconds = round(stats.talk_time_seconds, 3)
+        stats.longest_monologue_seconds = round(
+            stats.longest_monologue_seconds,
+            3,
+        )
+    }
+
+    const samples = soundSamples.filter(
+        (sample) => sample.timestamp >= start && sample.timestamp <= end,
+    )
+    const silent = samples.filter(
+        (sample) =>
+            sample.level <= MEETING_CONSTANTS.SOUND_LEVEL_ACTIVITY_THRESHOLD,
+    )
+
+    return {
+        duration_seconds: round(Math.max(0, end - start) / 1000, 3),
+        total_talk_time_seconds: round(totalTalkMs / 1000, 3),
+        silence_ratio:
+            samples.length > 0
+                ? round(silent.length / samples.length, 3)
+                : null,
+        participants: Array.from(participants.values()).sort(
+            (a, b) => b.talk_time_seconds - a.talk_time_seconds,
+        ),
+    }
+}
+
+export function summarizeMeetingAnalytics(
+    analytics: MeetingAnalytics,
+): MeetingAnalyticsSummary {
+    return {
+        duration_seconds: analytics.duration_seconds,
+        silence_ratio: analytics.silence_ratio,
+        interruptions: analytics.participants.reduce(
+            (total, stats) => total + stats.interruptions,
+            0,
+        ),
+        participants: analytics.participants.map((stats) => ({
+            name: stats.name,
+            talk_time_seconds: stats.talk_time_seconds,
+            talk_percentage: stats.talk_percentage,
+        })),
+    }
+}
+
+/**
+ * Analytics of the meeting written by `writeMeetingAnalytics`, null before
+ * the cleanup
+ */
+export function getMeetingAnalytics(): MeetingAnalytics | null {
+    return MEETING_ANALYTICS
+}
+
+/**
+ * Compute the talk-time analytics of the recording stopped at `stoppedAt`
+ * from the speaker and sound logs and write `analytics.json`. Paused time
+ * is cut out, as on the recording.
+ */
+export async function writeMeetingAnalytics(
+    meetingStartTime: number,
+    stoppedAt: number,
+): Promise<void> {
+    if (meetingStartTime <= 0) {
+        return
+    }
+
+    const pathManager = PathManager.getInstance()
+    try {
+        const [speakerLog, soundLog] = await Promise.all(
+            [
+                pathManager.getSpeakerLogPath(),
+                pathManager.getSoundLogPath(),
+            ].map((logPath) =>
+                fs.promises.readFile(logPath, 'utf8').catch(() => ''),
+            ),
+        )
+        const recorder = ScreenRecorderManager.getInstance()
+        // Timestamps are mapped onto the recording timeline, in ms
+        const offset = (timestamp: number) =>
+            recordingOffset(timestamp, meetingStartTime) * 1000
+        MEETING_ANALYTICS = computeMeetingAnalytics(
+            parseSpeakerLog(speakerLog).map((interval) => ({
+                speaker: interval.speaker,
+                start: offset(interval.start),
+                end: offset(interval.end),
+            })),
+            parseSoundLog(soundLog)
+                .filter((sample) => !recorder.wasPausedAt(sample.timestamp))
+                .map((sample) => ({
+                    ...sample,
+                    timestamp: offset(sample.timestamp),
+                })),
+            0,
+            offset(stoppedAt),
+        )
+        await fs.promises.writeFile(
+            pathManager.getAnalyticsPath(),
+            JSON.stringify(MEETING_ANALYTICS, null, 2),
+        )
+        console.log(
+            `Meeting analytics written, ${MEETING_ANALYTICS.participants.length} speaker(s)`,
+        )
+    } catch (e) {
+        console.error('Cannot write meeting analytics:', e)
+    }
+}
+
+function round(value: number, digits: number): number {
+    const factor = 10 ** digits
+    return Math.round(value * factor) / factor
+}
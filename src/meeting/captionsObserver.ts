@@ -0,0 +1,132 @@
+import { Page } from '@playwright/test'
+import { MeetingProvider } from '../types'
+import { MeetCaptionsObserver } from './meet/captionsObserver'
+import { TeamsCaptionsObserver } from './teams/captionsObserver'
+
+// Longest wait for captions being turned on when stopping
+const START_WAIT_TIMEOUT = 10_000 // ms
+
+export type CaptionUpdateCallback = (
+    blockId: number,
+    speaker: string,
+    text: string,
+) => void
+
+export class CaptionsObserver {
+    private meetingProvider: MeetingProvider
+    private observer: MeetCaptionsObserver | TeamsCaptionsObserver | null = null
+    private isObserving: boolean = false
+    // Captions being turned on, through the provider menus
+    private starting: Promise<void> | null = null
+    private stopRequested: boolean = false
+
+    constructor(meetingProvider: MeetingProvider) {
+        this.meetingProvider = meetingProvider
+    }
+
+    /**
+     * Turn captions on (translated to `translationLang` when set) and
+     * report every new or revised caption block.
+     */
+    public async startObserving(
+        page: Page,
+        translationLang: string | undefined,
+        onCaptionUpdate: CaptionUpdateCallback,
+    ): Promise<void> {
+        if (this.isObserving || this.starting) {
+            console.warn('[CaptionsObserver] Already running')
+            return
+        }
+
+        console.log(
+            `[CaptionsObserver] Starting for ${this.meetingProvider}...`,
+        )
+
+        // Providers list languages by name in their pickers
+        const translationLanguage = translationLang
+            ? languageDisplayName(translationLang)
+            : undefined
+
+        switch (this.meetingProvider) {
+            case 'Meet':
+                this.observer = new MeetCaptionsObserver(
+                    page,
+                    translationLanguage,
+                    onCaptionUpdate,
+                )
+                break
+
+            case 'Teams':
+                this.observer = new TeamsCaptionsObserver(
+                    page,
+                    translationLanguage,
+                    onCaptionUpdate,
+                )
+                break
+
+            default:
+                throw new Error(
+                    `Unknown meeting provider: ${this.meetingProvider}`,
+                )
+        }
+
+        this.starting = this.observer.startObserving()
+        try {
+            await this.starting
+        } finally {
+            this.starting = null
+        }
+        this.isObserving = true
+        // Stopped while the captions were turned on
+        if (this.stopRequested) {
+            this.stop()
+            return
+        }
+        console.log(`[CaptionsObserver] ✅ Started for ${this.meetingProvider}`)
+    }
+
+    /**
+     * Stop observing, once a pending start is over. A start still running
+     * after START_WAIT_TIMEOUT stops the observer when done.
+     */
+    public async stopObserving(): Promise<void> {
+        this.stopRequested = true
+        if (this.starting) {
+            let timeoutId: NodeJS.Timeout
+            await Promise.race([
+                this.starting.catch(() => {}),
+                new Promise<void>((resolve) => {
+                    timeoutId = setTimeout(() => resolve(), START_WAIT_TIMEOUT)
+                }),
+            ])
+            clearTimeout(timeoutId)
+        }
+        this.stop()
+    }
+
+    public isCurrentlyObserving(): boolean {
+        return this.isObserving
+    }
+
+    private stop(): void {
+        if (!this.isObserving || !this.observer) {
+            return
+        }
+
+        this.observer.stopObserving()
+        this.observer = null
+        this.isObserving = false
+        console.log(`[CaptionsObserver] ✅ Stopped for ${this.meetingProvider}`)
+    }
+}
+
+// Display name of a language code ('fr' => 'French')
+function languageDisplayName(code: string): string {
+    try {
+        return (
+            new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code
+        )
+    } catch (e) {
+        return code
+    }
+}
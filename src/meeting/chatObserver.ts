@@ -0,0 +1,60 @@
+import { Page } from '@playwright/test'
+import { MeetingProvider } from '../types'
+import { MeetChatObserver } from './meet/chatObserver'
+import { TeamsChatObserver } from './teams/chatObserver'
+
+export class ChatObserver {
+    private meetingProvider: MeetingProvider
+    private observer: MeetChatObserver | TeamsChatObserver | null = null
+    private isObserving: boolean = false
+
+    constructor(meetingProvider: MeetingProvider) {
+        this.meetingProvider = meetingProvider
+    }
+
+    public async startObserving(
+        page: Page,
+        onChatMessage: (sender: string, text: string) => void,
+    ): Promise<void> {
+        if (this.isObserving) {
+            console.warn('[ChatObserver] Already running')
+            return
+        }
+
+        console.log(`[ChatObserver] Starting for ${this.meetingProvider}...`)
+
+        switch (this.meetingProvider) {
+            case 'Meet':
+                this.observer = new MeetChatObserver(page, onChatMessage)
+                break
+
+            case 'Teams':
+                this.observer = new TeamsChatObserver(page, onChatMessage)
+                break
+
+            default:
+                throw new Error(
+                    `Unknown meeting provider: ${this.meetingProvider}`,
+                )
+        }
+
+        await this.observer.startObserving()
+        this.isObserving = true
+        console.log(`[ChatObserver] ✅ Started for ${this.meetingProvider}`)
+    }
+
+    public stopObserving(): void {
+        if (!this.isObserving || !this.observer) {
+            return
+        }
+
+        this.observer.stopObserving()
+        this.observer = null
+        this.isObserving = false
+        console.log(`[ChatObserver] ✅ Stopped for ${this.meetingProvider}`)
+    }
+
+    public isCurrentlyObserving(): boolean {
+        return this.isObserving
+    }
+}
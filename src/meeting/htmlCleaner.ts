@@ -76,6 +76,21 @@ export class HtmlCleaner {
         }
     }
 
+    /**
+     * Make the shared screen fill the recording frame while a presentation
+     * is on, and restore the regular layout afterwards.
+     */
+    public async setPresentationActive(active: boolean): Promise<void> {
+        if (!this.isRunning || !this.cleaner) {
+            return
+        }
+
+        console.log(
+            `[HtmlCleaner] Presentation layout ${active ? 'on' : 'off'} for ${this.meetingProvider}`,
+        )
+        await this.cleaner.setPresentationActive(active)
+    }
+
     public isCurrentlyRunning(): boolean {
         return this.isRunning
     }
@@ -212,13 +212,16 @@ export class MeetProvider implements MeetingProviderInterface {
 
             if (GLOBAL.get().enter_message) {
                 console.log('Sending entry message...')
-                await sendEntryMessage(page, GLOBAL.get().enter_message)
+                await sendChatMessage(page, GLOBAL.get().enter_message)
                 await sleep(100)
             }
 
             await clickOutsideModal(page)
             const maxAttempts = 3
-            if (GLOBAL.get().recording_mode !== 'audio_only') {
+            const recordingMode = GLOBAL.get().recording_mode
+            if (recordingMode !== 'audio_only') {
+                const layout =
+                    recordingMode === 'gallery_view' ? 'Tiled' : 'Spotlight'
                 // Capture DOM state before layout change attempts
                 await htmlSnapshot.captureSnapshot(
                     page,
@@ -226,7 +229,7 @@ export class MeetProvider implements MeetingProviderInterface {
                 )
 
                 for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-                    if (await changeLayout(page, attempt)) {
+                    if (await changeLayout(page, layout, attempt)) {
                         console.log(
                             `Layout change successful on attempt ${attempt}`,
                         )
@@ -238,15 +241,15 @@ export class MeetProvider implements MeetingProviderInterface {
                 }
             }
 
-            if (GLOBAL.get().recording_mode !== 'gallery_view') {
-                // Capture DOM state before opening people panel
-                await htmlSnapshot.captureSnapshot(
-                    page,
-                    'meet_people_panel_before_open',
-                )
+            // Speakers are read from the people panel in every mode, the
+            // HTML cleaner hides it and gives its space back to the tiles
+            // Capture DOM state before opening people panel
+            await htmlSnapshot.captureSnapshot(
+                page,
+                'meet_people_panel_before_open',
+            )
 
-                await findShowEveryOne(page, true, cancelCheck)
-            }
+            await findShowEveryOne(page, true, cancelCheck)
         } catch (error) {
             console.error('Error in joinMeeting:', {
                 message: (error as Error).message,
@@ -305,6 +308,10 @@ export class MeetProvider implements MeetingProviderInterface {
     async closeMeeting(page: Page): Promise<void> {
         await closeMeeting(page)
     }
+
+    async sendChatMessage(page: Page, text: string): Promise<boolean> {
+        return await sendChatMessage(page, text)
+    }
 }
 
 async function findShowEveryOne(
@@ -416,27 +423,26 @@ async function isInMeeting(page: Page): Promise<boolean> {
     }
 }
 
-async function sendEntryMessage(
-    page: Page,
-    enterMessage: string,
-): Promise<boolean> {
-    console.log('Attempting to send entry message...')
+const CHAT_TEXTAREA =
+    'textarea[placeholder="Send a message"], textarea[aria-label="Send a message to everyone"]'
+
+async function sendChatMessage(page: Page, message: string): Promise<boolean> {
+    console.log('Attempting to send chat message...')
     // First check if we are still in the meeting
     if (!(await isInMeeting(page))) {
-        console.log(
-            'Bot is no longer in the meeting, cannot send entry message',
-        )
+        console.log('Bot is no longer in the meeting, cannot send chat message')
         return false
     }
 
     // truncate the message as meet only allows 516 characters
-    enterMessage = enterMessage.substring(0, 500)
+    message = message.substring(0, 500)
     try {
-        await page.click('button[aria-label="Chat with everyone"]')
-        await page.waitForSelector(
-            'textarea[placeholder="Send a message"], textarea[aria-label="Send a message to everyone"]',
-            { state: 'visible' },
-        )
+        // Leave the chat panel as we found it (it may be opened by someone else)
+        const chatWasOpen = await page.locator(CHAT_TEXTAREA).isVisible()
+        if (!chatWasOpen) {
+            await page.click('button[aria-label="Chat with everyone"]')
+            await page.waitForSelector(CHAT_TEXTAREA, { state: 'visible' })
+        }
 
         // Check again if we are still in the meeting
         if (!(await isInMeeting(page))) {
@@ -444,22 +450,22 @@ async function sendEntryMessage(
             return false
         }
 
-        const textarea = page.locator(
-            'textarea[placeholder="Send a message"], textarea[aria-label="Send a message to everyone"]',
-        )
-        await textarea.fill(enterMessage)
+        const textarea = page.locator(CHAT_TEXTAREA)
+        await textarea.fill(message)
 
         const sendButton = page.locator('button:has(i:text("send"))')
         if ((await sendButton.count()) > 0) {
             await sendButton.click()
             console.log('Clicked on send button')
-            await page.click('button[aria-label="Chat with everyone"]')
+            if (!chatWasOpen) {
+                await page.click('button[aria-label="Chat with everyone"]')
+            }
             return true
         }
         console.log('Send button not found')
         return false
     } catch (error) {
-        console.error('Failed to send entry message:', error)
+        console.error('Failed to send chat message:', error)
         return false
     }
 }
@@ -639,11 +645,12 @@ async function clickWithInnerText(
 
 async function changeLayout(
     page: Page,
+    layout: 'Spotlight' | 'Tiled',
     currentAttempt = 1,
     maxAttempts = 3,
 ): Promise<boolean> {
     console.log(
-        `Starting layout change process (attempt ${currentAttempt}/${maxAttempts})...`,
+        `Starting ${layout} layout change process (attempt ${currentAttempt}/${maxAttempts})...`,
     )
 
     try {
@@ -724,32 +731,36 @@ async function changeLayout(
             return false
         }
 
-        // 3. Cliquer sur "Spotlight"
-        console.log('Looking for Spotlight option...')
-        const spotlightOption = page.locator(
+        // 3. Cliquer sur "Spotlight" ou "Tiled"
+        console.log(`Looking for ${layout} option...`)
+        const layoutOption = page.locator(
             [
-                'label:has-text("Spotlight"):has(input[type="radio"])',
-                'label:has(input[name="preferences"]):has-text("Spotlight")',
-                'label:has(span:text-is("Spotlight"))',
+                `label:has-text("${layout}"):has(input[type="radio"])`,
+                `label:has(input[name="preferences"]):has-text("${layout}")`,
+                `label:has(span:text-is("${layout}"))`,
             ].join(','),
         )
 
-        const count = await spotlightOption.count()
-        console.log(`Found ${count} Spotlight options`)
+        const count = await layoutOption.count()
+        console.log(`Found ${count} ${layout} options`)
 
-        await spotlightOption.waitFor({ state: 'visible', timeout: 3000 })
-        console.log('Clicking Spotlight option...')
-        await spotlightOption.click()
+        await layoutOption.waitFor({ state: 'visible', timeout: 3000 })
+        console.log(`Clicking ${layout} option...`)
+        await layoutOption.click()
         await page.waitForTimeout(500)
 
         // Check one last time if we are still in the meeting
         if (!(await isInMeeting(page))) {
             console.log(
-                'Bot is no longer in the meeting after clicking Spotlight',
+                `Bot is no longer in the meeting after clicking ${layout}`,
             )
             return false
         }
 
+        if (layout === 'Tiled') {
+            await showMaximumTiles(page)
+        }
+
         await clickOutsideModal(page)
         return true
     } catch (error) {
@@ -769,12 +780,33 @@ async function changeLayout(
                 `Retrying layout change (attempt ${currentAttempt + 1}/${maxAttempts})...`,
             )
             await page.waitForTimeout(1000)
-            return changeLayout(page, currentAttempt + 1, maxAttempts)
+            return changeLayout(page, layout, currentAttempt + 1, maxAttempts)
         }
         return false
     }
 }
 
+/**
+ * Push the "Tiles" slider of the layout dialog to its maximum so that every
+ * participant gets a tile. Not fatal: Meet keeps its default tile count.
+ */
+async function showMaximumTiles(page: Page): Promise<void> {
+    try {
+        const tilesSlider = page.locator('[role="dialog"] input[type="range"]')
+        await tilesSlider.waitFor({ state: 'visible', timeout: 2000 })
+        await tilesSlider.focus()
+        await page.keyboard.press('End')
+        console.log(
+            `Tiles slider set to ${await tilesSlider.inputValue().catch(() => '?')}`,
+        )
+    } catch (error) {
+        console.warn(
+            'Could not set the maximum number of tiles:',
+            (error as Error).message,
+        )
+    }
+}
+
 async function clickOutsideModal(page: Page) {
     await sleep(500)
     await page.mouse.click(10, 10)
@@ -0,0 +1,228 @@
+import { Page } from '@playwright/test'
+import { sleep } from '../../utils/sleep'
+import type { CaptionUpdateCallback } from '../captionsObserver'
+
+const CAPTIONS_REGION = 'div[role="region"][aria-label="Captions"]'
+
+/**
+ * Turns Meet live captions on and scrapes them.
+ *
+ * The captions overlay is made transparent so it does not end up in the
+ * recording; Meet keeps updating its DOM either way.
+ */
+export class MeetCaptionsObserver {
+    private page: Page
+    private translationLanguage: string | undefined
+    private onCaptionUpdate: CaptionUpdateCallback
+    private isObserving: boolean = false
+
+    private readonly SCAN_DEBOUNCE = 100 // ms
+    private readonly CHECK_INTERVAL = 2000 // 2s
+
+    constructor(
+        page: Page,
+        translationLanguage: string | undefined,
+        onCaptionUpdate: CaptionUpdateCallback,
+    ) {
+        this.page = page
+        this.translationLanguage = translationLanguage
+        this.onCaptionUpdate = onCaptionUpdate
+    }
+
+    public async startObserving(): Promise<void> {
+        if (this.isObserving) {
+            console.warn('[Meet] Captions already observed')
+            return
+        }
+
+        console.log('[Meet] Starting captions observation...')
+
+        await this.enableCaptions()
+        if (this.translationLanguage) {
+            await this.enableTranslatedCaptions(this.translationLanguage)
+        }
+
+        await this.page.exposeFunction(
+            'meetCaptionUpdate',
+            async (caption: { id: number; speaker: string; text: string }) => {
+                try {
+                    this.onCaptionUpdate(
+                        caption.id,
+                        caption.speaker,
+                        caption.text,
+                    )
+                } catch (error) {
+                    console.error(
+                        '[Meet] ❌ Error in captions callback:',
+                        error,
+                    )
+                }
+            },
+        )
+
+        await this.page.evaluate(
+            ({ regionSelector, scanDebounce, checkInterval }) => {
+                const BLOCK_IDS = new WeakMap<Element, number>()
+                const LAST_TEXT = new Map<number, string>()
+                let nextBlockId = 1
+                let scanTimeout: any = null
+
+                // Keep the overlay out of the recording
+                const style = document.createElement('style')
+                style.textContent = `${regionSelector} { opacity: 0 !important; pointer-events: none !important; }`
+                document.head.appendChild(style)
+
+                function scanCaptions() {
+                    scanTimeout = null
+                    const region = document.querySelector(regionSelector)
+                    if (!region) {
+                        return
+                    }
+
+                    // One block per speaker turn: avatar, name, then text
+                    Array.from(region.children).forEach((block) => {
+                        const name = block
+                            .querySelector('span')
+                            ?.textContent?.trim()
+                        const textNodes = block.querySelectorAll('div')
+                        const text = (
+                            textNodes[textNodes.length - 1] as HTMLElement
+                        )?.innerText?.trim()
+                        if (!name || !text) {
+                            return
+                        }
+
+                        let id = BLOCK_IDS.get(block)
+                        if (id === undefined) {
+                            id = nextBlockId++
+                            BLOCK_IDS.set(block, id)
+                        }
+                        if (LAST_TEXT.get(id) === text) {
+                            return
+                        }
+                        LAST_TEXT.set(id, text)
+                        ;(window as any).meetCaptionUpdate({
+                            id,
+                            speaker: name,
+                            text,
+                        })
+                    })
+                }
+
+                const observer = new MutationObserver(() => {
+                    if (!scanTimeout) {
+                        scanTimeout = setTimeout(scanCaptions, scanDebounce)
+                    }
+                })
+                observer.observe(document.body, {
+                    childList: true,
+                    characterData: true,
+                    subtree: true,
+                })
+                const periodicCheck = setInterval(scanCaptions, checkInterval)
+
+                ;(window as any).meetCaptionsObserverCleanup = () => {
+                    console.log('[Meet-Browser] Cleaning up captions observer')
+                    observer.disconnect()
+                    clearInterval(periodicCheck)
+                    if (scanTimeout) {
+                        clearTimeout(scanTimeout)
+                    }
+                }
+            },
+            {
+                regionSelector: CAPTIONS_REGION,
+                scanDebounce: this.SCAN_DEBOUNCE,
+                checkInterval: this.CHECK_INTERVAL,
+            },
+        )
+
+        this.isObserving = true
+        console.log('[Meet] ✅ Captions observer started successfully')
+    }
+
+    public stopObserving(): void {
+        if (!this.isObserving) {
+            return
+        }
+
+        this.page
+            ?.evaluate(() => {
+                if ((window as any).meetCaptionsObserverCleanup) {
+                    ;(window as any).meetCaptionsObserverCleanup()
+                }
+            })
+            .catch((e) =>
+                console.error('[Meet] Error cleaning up captions:', e),
+            )
+
+        this.isObserving = false
+        console.log('[Meet] ✅ Captions observer stopped')
+    }
+
+    private async enableCaptions(): Promise<void> {
+        try {
+            if ((await this.page.locator(CAPTIONS_REGION).count()) > 0) {
+                console.log('[Meet] Captions already on')
+                return
+            }
+
+            const captionsButton = this.page
+                .locator('button[aria-label*="Turn on captions" i]')
+                .first()
+            if ((await captionsButton.count()) > 0) {
+                await captionsButton.click()
+            } else {
+                // Keyboard shortcut toggling captions
+                await this.page.keyboard.press('c')
+            }
+            console.log('[Meet] Captions turned on')
+        } catch (error) {
+            console.warn('[Meet] Failed to turn on captions:', error)
+        }
+    }
+
+    /**
+     * Settings > Captions > Translated captions, then pick the language
+     */
+    private async enableTranslatedCaptions(language: string): Promise<void> {
+        try {
+            await this.page
+                .locator('button[aria-label="More options"]')
+                .first()
+                .click()
+            await this.page.getByRole('menuitem', { name: 'Settings' }).click()
+            await this.page.getByRole('tab', { name: 'Captions' }).click()
+
+            const translationSwitch = this.page.getByRole('switch', {
+                name: /Translated captions/i,
+            })
+            if (
+                (await translationSwitch.getAttribute('aria-checked')) !==
+                'true'
+            ) {
+                await translationSwitch.click()
+            }
+
+            await this.page
+                .getByRole('combobox', { name: /Translate to/i })
+                .click()
+            await this.page
+                .getByRole('option', { name: language, exact: false })
+                .first()
+                .click()
+            await sleep(500)
+
+            await this.page
+                .getByRole('button', { name: 'Close dialog' })
+                .click()
+            console.log(`[Meet] Translated captions set to ${language}`)
+        } catch (error) {
+            console.warn(
+                `[Meet] Failed to set translated captions to ${language}:`,
+                error,
+            )
+            await this.page.keyboard.press('Escape').catch(() => {})
+        }
+    }
+}
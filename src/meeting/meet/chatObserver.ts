@@ -0,0 +1,143 @@
+import { Page } from '@playwright/test'
+
+/**
+ * Reads Meet chat messages from the DOM.
+ *
+ * The side panel is kept on the People list for the speakers observer, so the
+ * chat panel is not forced open: messages are picked up from the panel when
+ * someone opens it and from the in-call message notifications otherwise.
+ * Both carry a `data-message-id`, used to deduplicate. Messages whose
+ * notification Meet collapses, groups or truncates are missed or truncated,
+ * the chat log may be incomplete.
+ */
+export class MeetChatObserver {
+    private page: Page
+    private onChatMessage: (sender: string, text: string) => void
+    private isObserving: boolean = false
+
+    private readonly SCAN_DEBOUNCE = 200 // ms
+    private readonly CHECK_INTERVAL = 5000 // 5s
+
+    constructor(
+        page: Page,
+        onChatMessage: (sender: string, text: string) => void,
+    ) {
+        this.page = page
+        this.onChatMessage = onChatMessage
+    }
+
+    public async startObserving(): Promise<void> {
+        if (this.isObserving) {
+            console.warn('[Meet] Chat already observed')
+            return
+        }
+
+        console.log('[Meet] Starting chat observation...')
+
+        await this.page.exposeFunction(
+            'meetChatMessage',
+            async (message: { sender: string; text: string }) => {
+                try {
+                    this.onChatMessage(message.sender, message.text)
+                } catch (error) {
+                    console.error('[Meet] ❌ Error in chat callback:', error)
+                }
+            },
+        )
+
+        await this.page.evaluate(
+            ({ scanDebounce, checkInterval }) => {
+                const SEEN_MESSAGES = new Set<string>()
+                let scanTimeout: any = null
+
+                // Messages are grouped by sender, the name lives in the group header
+                function findSender(message: Element): string {
+                    let group = message.parentElement
+                    while (group && group !== document.body) {
+                        const header = group.querySelector(
+                            '[data-sender-name], .poVWob',
+                        )
+                        if (header) {
+                            return (
+                                header.getAttribute('data-sender-name') ||
+                                header.textContent?.trim() ||
+                                'Unknown'
+                            )
+                        }
+                        group = group.parentElement
+                    }
+                    return 'Unknown'
+                }
+
+                function scanMessages() {
+                    scanTimeout = null
+                    document
+                        .querySelectorAll('[data-message-id]')
+                        .forEach((message) => {
+                            const id = message.getAttribute('data-message-id')
+                            if (!id || SEEN_MESSAGES.has(id)) {
+                                return
+                            }
+                            const text = (
+                                message as HTMLElement
+                            ).innerText?.trim()
+                            if (!text) {
+                                return
+                            }
+                            SEEN_MESSAGES.add(id)
+                            ;(window as any).meetChatMessage({
+                                sender: findSender(message),
+                                text,
+                            })
+                        })
+                }
+
+                const observer = new MutationObserver(() => {
+                    if (!scanTimeout) {
+                        scanTimeout = setTimeout(scanMessages, scanDebounce)
+                    }
+                })
+                observer.observe(document.body, {
+                    childList: true,
+                    subtree: true,
+                })
+                const periodicCheck = setInterval(scanMessages, checkInterval)
+
+                ;(window as any).meetChatObserverCleanup = () => {
+                    console.log('[Meet-Browser] Cleaning up chat observer')
+                    observer.disconnect()
+                    clearInterval(periodicCheck)
+                    if (scanTimeout) {
+                        clearTimeout(scanTimeout)
+                    }
+                }
+
+                scanMessages()
+            },
+            {
+                scanDebounce: this.SCAN_DEBOUNCE,
+                checkInterval: this.CHECK_INTERVAL,
+            },
+        )
+
+        this.isObserving = true
+        console.log('[Meet] ✅ Chat observer started successfully')
+    }
+
+    public stopObserving(): void {
+        if (!this.isObserving) {
+            return
+        }
+
+        this.page
+            ?.evaluate(() => {
+                if ((window as any).meetChatObserverCleanup) {
+                    ;(window as any).meetChatObserverCleanup()
+                }
+            })
+            .catch((e) => console.error('[Meet] Error cleaning up chat:', e))
+
+        this.isObserving = false
+        console.log('[Meet] ✅ Chat observer stopped')
+    }
+}
@@ -74,9 +74,12 @@ export class MeetHtmlCleaner {
                         }
                     }
                 } catch (e) {}
-                try {
-                    removeBlackBox()
-                } catch (e) {}
+                // The gallery keeps every tile, not only the largest one
+                if (mode !== 'gallery_view') {
+                    try {
+                        removeBlackBox()
+                    } catch (e) {}
+                }
                 try {
                     const politeDivs = document.querySelectorAll(
                         'div[aria-live="polite"]',
@@ -178,16 +181,21 @@ export class MeetHtmlCleaner {
                         bannerDiv.style.opacity = '0'
                     }
                 } catch (e) {}
-                try {
-                    for (const div of document.getElementsByTagName('div')) {
-                        if (
-                            div.clientHeight === 164 &&
-                            div.clientWidth === 322
-                        ) {
-                            div.style.display = 'none'
+                // Floating self view in speaker view, a regular tile in the gallery
+                if (mode !== 'gallery_view') {
+                    try {
+                        for (const div of document.getElementsByTagName(
+                            'div',
+                        )) {
+                            if (
+                                div.clientHeight === 164 &&
+                                div.clientWidth === 322
+                            ) {
+                                div.style.display = 'none'
+                            }
                         }
-                    }
-                } catch (e) {}
+                    } catch (e) {}
+                }
                 try {
                     for (const div of document.getElementsByTagName('div')) {
                         if (div.clientHeight === 40) {
@@ -257,6 +265,78 @@ export class MeetHtmlCleaner {
 
                 // Hide visitor indicator bar
                 hideVisitorIndicator()
+
+                if ((window as any).htmlCleanerPresentationActive) {
+                    focusPresentation()
+                }
+            }
+
+            // The shared screen is the stream with the highest resolution
+            function focusPresentation(): void {
+                try {
+                    let presentation: HTMLVideoElement | null = null
+                    let maxPixels = 0
+                    for (const video of document.getElementsByTagName(
+                        'video',
+                    )) {
+                        const pixels = video.videoWidth * video.videoHeight
+                        if (pixels > maxPixels) {
+                            maxPixels = pixels
+                            presentation = video
+                        }
+                    }
+
+                    document
+                        .querySelectorAll('[data-presentation-focus]')
+                        .forEach((el) => {
+                            if (el !== presentation) {
+                                unfocusPresentation(el as HTMLElement)
+                            }
+                        })
+                    if (
+                        !presentation ||
+                        presentation.hasAttribute('data-presentation-focus')
+                    ) {
+                        return
+                    }
+
+                    presentation.setAttribute('data-presentation-focus', '')
+                    presentation.style.position = 'fixed'
+                    presentation.style.left = '0'
+                    presentation.style.top = '0'
+                    presentation.style.width = '100vw'
+                    presentation.style.height = '100vh'
+                    presentation.style.objectFit = 'contain'
+                    presentation.style.background = '#000'
+                    presentation.style.zIndex = '900001'
+                } catch (e) {}
+            }
+
+            function unfocusPresentation(el: HTMLElement): void {
+                el.removeAttribute('data-presentation-focus')
+                for (const property of [
+                    'position',
+                    'left',
+                    'top',
+                    'width',
+                    'height',
+                    'object-fit',
+                    'background',
+                    'z-index',
+                ]) {
+                    el.style.removeProperty(property)
+                }
+            }
+
+            ;(window as any).htmlCleanerSetPresentation = (active: boolean) => {
+                ;(window as any).htmlCleanerPresentationActive = active
+                if (active) {
+                    focusPresentation()
+                } else {
+                    document
+                        .querySelectorAll('[data-presentation-focus]')
+                        .forEach((el) => unfocusPresentation(el as HTMLElement))
+                }
             }
 
             function hideVisitorIndicator(): void {
@@ -375,6 +455,12 @@ export class MeetHtmlCleaner {
         }, this.recordingMode)
     }
 
+    public async setPresentationActive(active: boolean): Promise<void> {
+        await this.page.evaluate((active) => {
+            ;(window as any).htmlCleanerSetPresentation?.(active)
+        }, active)
+    }
+
     public async stop(): Promise<void> {
         console.log('[Meet] Stopping HTML cleaner')
 
@@ -73,7 +73,8 @@ export class MeetSpeakersObserver {
                 )
 
                 // EXACT SAME VARIABLES AS EXTENSION
-                let CUR_SPEAKERS = new Map<string, boolean>()
+                // name => serialized speaking/mute/camera/presenting/hand state
+                let CUR_SPEAKERS = new Map<string, string>()
                 let checkSpeakersTimeout: any = null
                 let lastMutationTime = Date.now()
                 let MUTATION_OBSERVER: MutationObserver | null = null
@@ -89,6 +90,8 @@ export class MeetSpeakersObserver {
                     recordingMode: string,
                 ): Promise<[Node, MutationObserverInit] | undefined> {
                     if (recordingMode === 'gallery_view') {
+                        // Speakers still come from the people panel, indicators
+                        // of every tile are exposed through aria-labels
                         return [
                             document,
                             {
@@ -96,7 +99,7 @@ export class MeetSpeakersObserver {
                                 characterData: false,
                                 childList: true,
                                 subtree: true,
-                                attributeFilter: ['class'],
+                                attributeFilter: ['class', 'aria-label'],
                             },
                         ]
                     } else {
@@ -211,6 +214,35 @@ export class MeetSpeakersObserver {
                     }
                 }
 
+                // Meet renders its indicators as material icon ligatures
+                // (mic_off, front_hand...) with matching aria-labels
+                function getParticipantIndicators(item: Element) {
+                    const icons = Array.from(item.querySelectorAll('i')).map(
+                        (icon) => icon.textContent?.trim(),
+                    )
+                    const labels = Array.from(
+                        item.querySelectorAll('[aria-label]'),
+                    ).map((elem) => elem.getAttribute('aria-label') || '')
+                    const hasLabel = (pattern: RegExp) =>
+                        labels.some((label) => pattern.test(label))
+
+                    return {
+                        isMuted:
+                            icons.includes('mic_off') ||
+                            hasLabel(/microphone (is )?(off|muted)/i),
+                        isCameraOff:
+                            icons.includes('videocam_off') ||
+                            hasLabel(/camera (is )?off/i),
+                        isPresenting:
+                            icons.includes('present_to_all') ||
+                            hasLabel(/is presenting/i),
+                        isHandRaised:
+                            icons.includes('front_hand') ||
+                            icons.includes('back_hand') ||
+                            hasLabel(/hand (is )?raised|lower .*hand/i),
+                    }
+                }
+
                 // EXACT SAME getSpeakerFromDocument as extension
                 function getSpeakerFromDocument(
                     recordingMode: string,
@@ -253,7 +285,10 @@ export class MeetSpeakersObserver {
                             {
                                 name: string
                                 isSpeaking: boolean
+                                isMuted: boolean
+                                isCameraOff: boolean
                                 isPresenting: boolean
+                                isHandRaised: boolean
                                 isInMergedAudio: boolean
                                 cohortId: string | null
                             }
@@ -364,7 +399,10 @@ export class MeetSpeakersObserver {
                                     uniqueParticipants.set(uniqueKey, {
                                         name: ariaLabel,
                                         isSpeaking: false,
+                                        isMuted: false,
+                                        isCameraOff: false,
                                         isPresenting: false,
+                                        isHandRaised: false,
                                         isInMergedAudio: isMergedAudio,
                                         cohortId: isMergedAudio
                                             ? cohortId
@@ -384,9 +422,15 @@ export class MeetSpeakersObserver {
                                     return text === 'Presentation'
                                 })
 
-                                if (isPresenting) {
+                                const indicators =
+                                    getParticipantIndicators(item)
+                                if (isPresenting || indicators.isPresenting) {
                                     participant.isPresenting = true
                                 }
+                                participant.isMuted = indicators.isMuted
+                                participant.isCameraOff = indicators.isCameraOff
+                                participant.isHandRaised =
+                                    indicators.isHandRaised
 
                                 // Check speaking indicators + NEW COLOR FIX
                                 const speakingIndicators = Array.from(
@@ -448,6 +492,10 @@ export class MeetSpeakersObserver {
                             id: 0,
                             timestamp,
                             isSpeaking: participant.isSpeaking,
+                            isMuted: participant.isMuted,
+                            isCameraOff: participant.isCameraOff,
+                            isPresenting: participant.isPresenting,
+                            isHandRaised: participant.isHandRaised,
                         }))
 
                         console.log(
@@ -466,6 +514,17 @@ export class MeetSpeakersObserver {
                     }
                 }
 
+                // Any indicator change must be reported, not only speaking
+                function speakerStateKey(speaker: SpeakerData): string {
+                    return [
+                        speaker.isSpeaking,
+                        speaker.isMuted,
+                        speaker.isCameraOff,
+                        speaker.isPresenting,
+                        speaker.isHandRaised,
+                    ].join('|')
+                }
+
                 // SHARED CRITICAL LOGIC from speakersUtils
                 function areMapsEqual<K, V>(
                     map1: Map<K, V>,
@@ -499,7 +558,7 @@ export class MeetSpeakersObserver {
                         let new_speakers = new Map(
                             currentSpeakersList.map((elem) => [
                                 elem.name,
-                                elem.isSpeaking,
+                                speakerStateKey(elem),
                             ]),
                         )
 
@@ -610,7 +669,10 @@ export class MeetSpeakersObserver {
                             ).filter((speaker) => speaker.name !== botName)
                             CUR_SPEAKERS.clear()
                             allSpeakers.forEach((elem) =>
-                                CUR_SPEAKERS.set(elem.name, elem.isSpeaking),
+                                CUR_SPEAKERS.set(
+                                    elem.name,
+                                    speakerStateKey(elem),
+                                ),
                             )
                         }
 
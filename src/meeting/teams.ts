@@ -397,13 +397,15 @@ export class TeamsProvider implements MeetingProviderInterface {
             )
 
             if (await clickWithInnerText(page, 'button', 'View', 10, false)) {
-                if (GLOBAL.get().recording_mode !== 'gallery_view') {
-                    await clickWithInnerText(page, 'button', 'View', 10)
-                    await clickWithInnerText(page, 'div', 'Speaker', 20)
-                }
+                const layout =
+                    GLOBAL.get().recording_mode === 'gallery_view'
+                        ? 'Gallery'
+                        : 'Speaker'
+                await clickWithInnerText(page, 'button', 'View', 10)
+                await clickWithInnerText(page, 'div', layout, 20)
             }
         } catch (e) {
-            console.error('Error handling "View" or "Speaker" mode:', e)
+            console.error('Error handling "View" layout selection:', e)
         }
     }
 
@@ -456,6 +458,10 @@ export class TeamsProvider implements MeetingProviderInterface {
             console.error('Error while trying to leave meeting:', error)
         }
     }
+
+    async sendChatMessage(page: Page, text: string): Promise<boolean> {
+        return await sendChatMessage(page, text)
+    }
 }
 
 const INPUT_BOT = 'input[placeholder="Type your name"]'
@@ -762,6 +768,62 @@ async function ensurePageLoaded(page: Page, timeout = 20000): Promise<boolean> {
     }
 }
 
+const CHAT_BUTTON = 'button#chat-button, button[aria-label="Chat"]'
+const CHAT_COMPOSE_BOX =
+    'div[data-tid="ckeditor"][contenteditable="true"], div[role="textbox"][aria-label*="Type a message"]'
+const CHAT_SEND_BUTTON =
+    'button[data-tid="newMessageCommands-send"], button[name="send"]'
+// Same limit as on Meet, so that a message reads the same everywhere
+const CHAT_MAX_LENGTH = 500
+
+async function sendChatMessage(page: Page, message: string): Promise<boolean> {
+    console.log('Attempting to send Teams chat message...')
+    if (!(await isInTeamsMeeting(page))) {
+        console.log('Bot is no longer in the meeting, cannot send chat message')
+        return false
+    }
+
+    message = message.substring(0, CHAT_MAX_LENGTH)
+    try {
+        // Leave the chat panel as we found it (it may be opened by someone else)
+        const composeBox = page.locator(CHAT_COMPOSE_BOX).first()
+        const chatWasOpen = await composeBox.isVisible()
+        if (!chatWasOpen) {
+            await page.locator(CHAT_BUTTON).first().click()
+            await composeBox.waitFor({ state: 'visible', timeout: 10000 })
+        }
+
+        await composeBox.click()
+        // The compose box is a contenteditable, fill() does not work reliably.
+        // Enter sends the message, line breaks go through Shift+Enter
+        for (const [index, line] of message.split(/\r?\n/).entries()) {
+            if (index > 0) {
+                await page.keyboard.press('Shift+Enter')
+            }
+            if (line) {
+                await page.keyboard.insertText(line)
+            }
+        }
+
+        const sendButton = page.locator(CHAT_SEND_BUTTON).first()
+        if ((await sendButton.count()) > 0) {
+            await sendButton.click()
+            console.log('Clicked on send button')
+        } else {
+            await page.keyboard.press('Enter')
+            console.log('Send button not found, pressed Enter')
+        }
+
+        if (!chatWasOpen) {
+            await page.locator(CHAT_BUTTON).first().click()
+        }
+        return true
+    } catch (error) {
+        console.error('Failed to send Teams chat message:', error)
+        return false
+    }
+}
+
 // New function to check if we are in the Teams meeting
 async function isInTeamsMeeting(page: Page): Promise<boolean> {
     try {
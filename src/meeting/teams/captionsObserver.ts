@@ -0,0 +1,227 @@
+import { Page } from '@playwright/test'
+import { sleep } from '../../utils/sleep'
+import type { CaptionUpdateCallback } from '../captionsObserver'
+
+const CAPTIONS_WRAPPER = '[data-tid="closed-caption-renderer-wrapper"]'
+
+/**
+ * Turns Teams live captions on and scrapes them.
+ *
+ * The captions overlay is made transparent so it does not end up in the
+ * recording; Teams keeps updating its DOM either way.
+ */
+export class TeamsCaptionsObserver {
+    private page: Page
+    private translationLanguage: string | undefined
+    private onCaptionUpdate: CaptionUpdateCallback
+    private isObserving: boolean = false
+
+    private readonly SCAN_DEBOUNCE = 100 // ms
+    private readonly CHECK_INTERVAL = 2000 // 2s
+
+    constructor(
+        page: Page,
+        translationLanguage: string | undefined,
+        onCaptionUpdate: CaptionUpdateCallback,
+    ) {
+        this.page = page
+        this.translationLanguage = translationLanguage
+        this.onCaptionUpdate = onCaptionUpdate
+    }
+
+    public async startObserving(): Promise<void> {
+        if (this.isObserving) {
+            console.warn('[Teams] Captions already observed')
+            return
+        }
+
+        console.log('[Teams] Starting captions observation...')
+
+        await this.enableCaptions()
+        if (this.translationLanguage) {
+            await this.enableTranslatedCaptions(this.translationLanguage)
+        }
+
+        await this.page.exposeFunction(
+            'teamsCaptionUpdate',
+            async (caption: { id: number; speaker: string; text: string }) => {
+                try {
+                    this.onCaptionUpdate(
+                        caption.id,
+                        caption.speaker,
+                        caption.text,
+                    )
+                } catch (error) {
+                    console.error(
+                        '[Teams] ❌ Error in captions callback:',
+                        error,
+                    )
+                }
+            },
+        )
+
+        await this.page.evaluate(
+            ({ wrapperSelector, scanDebounce, checkInterval }) => {
+                const BLOCK_IDS = new WeakMap<Element, number>()
+                const LAST_TEXT = new Map<number, string>()
+                let nextBlockId = 1
+                let scanTimeout: any = null
+
+                // Keep the overlay out of the recording
+                const style = document.createElement('style')
+                style.textContent = `${wrapperSelector} { opacity: 0 !important; pointer-events: none !important; }`
+                document.head.appendChild(style)
+
+                function scanCaptions() {
+                    scanTimeout = null
+                    const wrapper = document.querySelector(wrapperSelector)
+                    if (!wrapper) {
+                        return
+                    }
+
+                    wrapper
+                        .querySelectorAll('.fui-ChatMessageCompact')
+                        .forEach((block) => {
+                            const name = block
+                                .querySelector('[data-tid="author"]')
+                                ?.textContent?.trim()
+                            const text = (
+                                block.querySelector(
+                                    '[data-tid="closed-caption-text"]',
+                                ) as HTMLElement | null
+                            )?.innerText?.trim()
+                            if (!name || !text) {
+                                return
+                            }
+
+                            let id = BLOCK_IDS.get(block)
+                            if (id === undefined) {
+                                id = nextBlockId++
+                                BLOCK_IDS.set(block, id)
+                            }
+                            if (LAST_TEXT.get(id) === text) {
+                                return
+                            }
+                            LAST_TEXT.set(id, text)
+                            ;(window as any).teamsCaptionUpdate({
+                                id,
+                                speaker: name,
+                                text,
+                            })
+                        })
+                }
+
+                const observer = new MutationObserver(() => {
+                    if (!scanTimeout) {
+                        scanTimeout = setTimeout(scanCaptions, scanDebounce)
+                    }
+                })
+                observer.observe(document.body, {
+                    childList: true,
+                    characterData: true,
+                    subtree: true,
+                })
+                const periodicCheck = setInterval(scanCaptions, checkInterval)
+
+                ;(window as any).teamsCaptionsObserverCleanup = () => {
+                    console.log('[Teams-Browser] Cleaning up captions observer')
+                    observer.disconnect()
+                    clearInterval(periodicCheck)
+                    if (scanTimeout) {
+                        clearTimeout(scanTimeout)
+                    }
+                }
+            },
+            {
+                wrapperSelector: CAPTIONS_WRAPPER,
+                scanDebounce: this.SCAN_DEBOUNCE,
+                checkInterval: this.CHECK_INTERVAL,
+            },
+        )
+
+        this.isObserving = true
+        console.log('[Teams] ✅ Captions observer started successfully')
+    }
+
+    public stopObserving(): void {
+        if (!this.isObserving) {
+            return
+        }
+
+        this.page
+            ?.evaluate(() => {
+                if ((window as any).teamsCaptionsObserverCleanup) {
+                    ;(window as any).teamsCaptionsObserverCleanup()
+                }
+            })
+            .catch((e) =>
+                console.error('[Teams] Error cleaning up captions:', e),
+            )
+
+        this.isObserving = false
+        console.log('[Teams] ✅ Captions observer stopped')
+    }
+
+    /**
+     * More > Language and speech > Show live captions
+     */
+    private async enableCaptions(): Promise<void> {
+        try {
+            if ((await this.page.locator(CAPTIONS_WRAPPER).count()) > 0) {
+                console.log('[Teams] Captions already on')
+                return
+            }
+
+            await this.page
+                .locator(
+                    'button#callingButtons-showMoreBtn, button[aria-label="More"]',
+                )
+                .first()
+                .click()
+            await this.page
+                .getByRole('menuitem', { name: /Language and speech/i })
+                .click()
+            await this.page
+                .getByRole('menuitem', { name: /live captions/i })
+                .first()
+                .click()
+            console.log('[Teams] Captions turned on')
+        } catch (error) {
+            console.warn('[Teams] Failed to turn on captions:', error)
+            await this.page.keyboard.press('Escape').catch(() => {})
+        }
+    }
+
+    /**
+     * Captions settings > Language settings > Translate to
+     */
+    private async enableTranslatedCaptions(language: string): Promise<void> {
+        try {
+            await this.page
+                .getByRole('button', { name: /Captions settings/i })
+                .click()
+            await this.page
+                .getByRole('menuitem', { name: /Language settings/i })
+                .click()
+            await this.page
+                .getByRole('combobox', { name: /Translate to/i })
+                .click()
+            await this.page
+                .getByRole('option', { name: language, exact: false })
+                .first()
+                .click()
+            await sleep(500)
+            await this.page
+                .getByRole('button', { name: /Update|Confirm|Save/i })
+                .first()
+                .click()
+            console.log(`[Teams] Translated captions set to ${language}`)
+        } catch (error) {
+            console.warn(
+                `[Teams] Failed to set translated captions to ${language}:`,
+                error,
+            )
+            await this.page.keyboard.press('Escape').catch(() => {})
+        }
+    }
+}
@@ -0,0 +1,151 @@
+import { Page } from '@playwright/test'
+
+/**
+ * Reads Teams chat messages from the DOM.
+ *
+ * Opening the chat pane would shrink the recorded video stage, so it is not
+ * forced open: messages are picked up from the pane when it is open and from
+ * the chat bubbles Teams shows over the stage otherwise.
+ */
+export class TeamsChatObserver {
+    private page: Page
+    private onChatMessage: (sender: string, text: string) => void
+    private isObserving: boolean = false
+
+    private readonly SCAN_DEBOUNCE = 200 // ms
+    private readonly CHECK_INTERVAL = 5000 // 5s
+
+    constructor(
+        page: Page,
+        onChatMessage: (sender: string, text: string) => void,
+    ) {
+        this.page = page
+        this.onChatMessage = onChatMessage
+    }
+
+    public async startObserving(): Promise<void> {
+        if (this.isObserving) {
+            console.warn('[Teams] Chat already observed')
+            return
+        }
+
+        console.log('[Teams] Starting chat observation...')
+
+        await this.page.exposeFunction(
+            'teamsChatMessage',
+            async (message: { sender: string; text: string }) => {
+                try {
+                    this.onChatMessage(message.sender, message.text)
+                } catch (error) {
+                    console.error('[Teams] ❌ Error in chat callback:', error)
+                }
+            },
+        )
+
+        await this.page.evaluate(
+            ({ scanDebounce, checkInterval }) => {
+                const SEEN_MESSAGES = new Set<string>()
+                let scanTimeout: any = null
+
+                function getDocuments(): Document[] {
+                    const documents: Document[] = [document]
+                    for (const iframe of document.querySelectorAll('iframe')) {
+                        try {
+                            if (iframe.contentDocument) {
+                                documents.push(iframe.contentDocument)
+                            }
+                        } catch (e) {
+                            // Cross-origin iframe, skip
+                        }
+                    }
+                    return documents
+                }
+
+                function scanMessages() {
+                    scanTimeout = null
+                    for (const root of getDocuments()) {
+                        // Consecutive messages from the same author only carry
+                        // the author name on the first one
+                        let lastSender = 'Unknown'
+                        root.querySelectorAll(
+                            '[data-tid="chat-pane-item"], [data-tid="message-bubble"]',
+                        ).forEach((item) => {
+                            const author = item
+                                .querySelector(
+                                    '[data-tid="message-author-name"]',
+                                )
+                                ?.textContent?.trim()
+                            if (author) {
+                                lastSender = author
+                            }
+                            const body = item.querySelector(
+                                '[data-tid="chat-pane-message"], [data-tid="message-body"]',
+                            ) as HTMLElement | null
+                            const text = body?.innerText?.trim()
+                            if (!text) {
+                                return
+                            }
+                            const id =
+                                item.querySelector('[id^="content-"]')?.id ||
+                                `${lastSender}|${text}`
+                            if (SEEN_MESSAGES.has(id)) {
+                                return
+                            }
+                            SEEN_MESSAGES.add(id)
+                            ;(window as any).teamsChatMessage({
+                                sender: lastSender,
+                                text,
+                            })
+                        })
+                    }
+                }
+
+                const observer = new MutationObserver(() => {
+                    if (!scanTimeout) {
+                        scanTimeout = setTimeout(scanMessages, scanDebounce)
+                    }
+                })
+                observer.observe(document.body, {
+                    childList: true,
+                    subtree: true,
+                })
+                const periodicCheck = setInterval(scanMessages, checkInterval)
+
+                ;(window as any).teamsChatObserverCleanup = () => {
+                    console.log('[Teams-Browser] Cleaning up chat observer')
+                    observer.disconnect()
+                    clearInterval(periodicCheck)
+                    if (scanTimeout) {
+                        clearTimeout(scanTimeout)
+                    }
+                }
+
+                scanMessages()
+            },
+            {
+                scanDebounce: this.SCAN_DEBOUNCE,
+                checkInterval: this.CHECK_INTERVAL,
+            },
+        )
+
+        this.isObserving = true
+        console.log('[Teams] ✅ Chat observer started successfully')
+    }
+
+    public stopObserving(): void {
+        if (!this.isObserving) {
+            return
+        }
+
+        this.page
+            ?.evaluate(() => {
+                if ((window as any).teamsChatObserverCleanup) {
+                    ;(window as any).teamsChatObserverCleanup()
+                }
+            })
+            .catch((e) => console.error('[Teams] Error cleaning up chat:', e))
+
+        this.isObserving = false
+        console.log('[Teams] ✅ Chat observer stopped')
+    }
+}
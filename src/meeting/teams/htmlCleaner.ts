@@ -116,27 +116,31 @@ export class TeamsHtmlCleaner {
                     console.error('[Teams] Error in remove shitty html', e)
                 }
 
-                try {
-                    let hiddenDivs = 0
-                    documentRoot.querySelectorAll('div').forEach((div) => {
-                        if (
-                            (div as HTMLElement).clientHeight === 137 &&
-                            (div as HTMLElement).clientWidth === 245
-                        ) {
-                            ;(div as HTMLElement).style.opacity = '0'
-                            hiddenDivs++
-                        }
-                    })
-                    console.log(
-                        '[Teams] Hidden',
-                        hiddenDivs,
-                        'additional elements',
-                    )
-                } catch (e) {
-                    console.error(
-                        '[Teams] Error in remove additional elements',
-                        e,
-                    )
+                // Small floating tiles in speaker view, participant tiles
+                // of the gallery must stay visible
+                if (recordingMode !== 'gallery_view') {
+                    try {
+                        let hiddenDivs = 0
+                        documentRoot.querySelectorAll('div').forEach((div) => {
+                            if (
+                                (div as HTMLElement).clientHeight === 137 &&
+                                (div as HTMLElement).clientWidth === 245
+                            ) {
+                                ;(div as HTMLElement).style.opacity = '0'
+                                hiddenDivs++
+                            }
+                        })
+                        console.log(
+                            '[Teams] Hidden',
+                            hiddenDivs,
+                            'additional elements',
+                        )
+                    } catch (e) {
+                        console.error(
+                            '[Teams] Error in remove additional elements',
+                            e,
+                        )
+                    }
                 }
 
                 try {
@@ -150,6 +154,65 @@ export class TeamsHtmlCleaner {
                 } catch (e) {
                     console.error('[Teams] Failed to modify main area', e)
                 }
+
+                if ((window as any).htmlCleanerPresentationActive) {
+                    focusPresentation()
+                }
+            }
+
+            // Teams renders the shared screen in a dedicated content stage
+            const PRESENTATION_SELECTOR =
+                '[data-stream-type="ScreenSharing"], [data-tid*="screen-share"], [data-tid*="content-share"]'
+
+            function focusPresentation(): void {
+                try {
+                    const documentRoot = getDocumentRoot()
+                    const presentation = documentRoot.querySelector(
+                        PRESENTATION_SELECTOR,
+                    )
+                    if (
+                        !(presentation instanceof HTMLElement) ||
+                        presentation.hasAttribute('data-presentation-focus')
+                    ) {
+                        return
+                    }
+
+                    presentation.setAttribute('data-presentation-focus', '')
+                    presentation.style.position = 'fixed'
+                    presentation.style.left = '0'
+                    presentation.style.top = '0'
+                    presentation.style.width = '100vw'
+                    presentation.style.height = '100vh'
+                    presentation.style.background = 'black'
+                    presentation.style.zIndex = '9998'
+                    console.log('[Teams] Presentation focused')
+                } catch (e) {
+                    console.error('[Teams] Failed to focus presentation', e)
+                }
+            }
+
+            ;(window as any).htmlCleanerSetPresentation = (active: boolean) => {
+                ;(window as any).htmlCleanerPresentationActive = active
+                if (active) {
+                    focusPresentation()
+                    return
+                }
+                getDocumentRoot()
+                    .querySelectorAll('[data-presentation-focus]')
+                    .forEach((el) => {
+                        el.removeAttribute('data-presentation-focus')
+                        for (const property of [
+                            'position',
+                            'left',
+                            'top',
+                            'width',
+                            'height',
+                            'background',
+                            'z-index',
+                        ]) {
+                            ;(el as HTMLElement).style.removeProperty(property)
+                        }
+                    })
             }
 
             // Execute Teams provider
@@ -173,6 +236,12 @@ export class TeamsHtmlCleaner {
         }, this.recordingMode)
     }
 
+    public async setPresentationActive(active: boolean): Promise<void> {
+        await this.page.evaluate((active) => {
+            ;(window as any).htmlCleanerSetPresentation?.(active)
+        }, active)
+    }
+
     public async stop(): Promise<void> {
         console.log('[Teams] Stopping HTML cleaner')
 
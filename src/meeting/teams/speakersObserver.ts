@@ -73,7 +73,8 @@ export class TeamsSpeakersObserver {
                 )
 
                 // EXACT SAME VARIABLES AS EXTENSION
-                let CUR_SPEAKERS = new Map<string, boolean>()
+                // name => serialized speaking/mute/camera/presenting/hand state
+                let CUR_SPEAKERS = new Map<string, string>()
                 let checkSpeakersTimeout: any = null
                 let lastMutationTime = Date.now()
                 let MUTATION_OBSERVER: MutationObserver | null = null
@@ -96,6 +97,35 @@ export class TeamsSpeakersObserver {
                     return document
                 }
 
+                // Camera, presenting and hand state read from the video tile
+                function getParticipantIndicators(
+                    element: Element,
+                    isMuted: boolean,
+                ) {
+                    const label = (
+                        element.getAttribute('aria-label') || ''
+                    ).toLowerCase()
+
+                    return {
+                        isMuted,
+                        isCameraOff: element.hasAttribute('data-cid')
+                            ? !label.includes('video is on')
+                            : !element.querySelector('video'),
+                        isPresenting:
+                            label.includes('sharing') ||
+                            label.includes('presenting') ||
+                            !!element.querySelector(
+                                '[data-tid*="screen-sharing"], [data-tid*="presenting"]',
+                            ),
+                        isHandRaised:
+                            label.includes('hand raised') ||
+                            label.includes('raised hand') ||
+                            !!element.querySelector(
+                                '[data-tid*="raise-hand"], [data-tid*="raised-hand"], [data-cid*="raised-hand"]',
+                            ),
+                    }
+                }
+
                 // EXACT SAME getSpeakerFromDocument as extension + DEBUG
                 function getSpeakerFromDocument(
                     recordingMode: string,
@@ -150,7 +180,7 @@ export class TeamsSpeakersObserver {
                             const height = htmlEl.clientHeight
                             return width > 0 && height > 0
                         })
-                        .map((element, index) => {
+                        .map((element, index): SpeakerData | undefined => {
                             console.log(
                                 `[TEAMS-DEBUG] Processing visible element ${index}`,
                             )
@@ -168,16 +198,20 @@ export class TeamsSpeakersObserver {
                                     `[TEAMS-DEBUG] Old teams - found name of length: "${name.length}"`,
                                 )
                                 if (name !== '') {
-                                    if (
+                                    const isMuted =
                                         element
                                             .getAttribute('aria-label')
-                                            ?.includes(', muted,')
-                                    ) {
+                                            ?.includes(', muted,') || false
+                                    if (isMuted) {
                                         return {
                                             name,
                                             id: 0,
                                             timestamp,
                                             isSpeaking: false,
+                                            ...getParticipantIndicators(
+                                                element,
+                                                isMuted,
+                                            ),
                                         }
                                     } else {
                                         return {
@@ -187,6 +221,10 @@ export class TeamsSpeakersObserver {
                                             isSpeaking: checkIfSpeaking(
                                                 element as HTMLElement,
                                             ),
+                                            ...getParticipantIndicators(
+                                                element,
+                                                isMuted,
+                                            ),
                                         }
                                     }
                                 }
@@ -224,6 +262,10 @@ export class TeamsSpeakersObserver {
                                         id: 0,
                                         timestamp,
                                         isSpeaking,
+                                        ...getParticipantIndicators(
+                                            element,
+                                            isMuted,
+                                        ),
                                     }
                                 }
                             } else {
@@ -256,6 +298,10 @@ export class TeamsSpeakersObserver {
                                         id: 0,
                                         timestamp,
                                         isSpeaking,
+                                        ...getParticipantIndicators(
+                                            element,
+                                            isMuted,
+                                        ),
                                     }
                                 }
                             }
@@ -424,6 +470,17 @@ export class TeamsSpeakersObserver {
                     return result
                 }
 
+                // Any indicator change must be reported, not only speaking
+                function speakerStateKey(speaker: SpeakerData): string {
+                    return [
+                        speaker.isSpeaking,
+                        speaker.isMuted,
+                        speaker.isCameraOff,
+                        speaker.isPresenting,
+                        speaker.isHandRaised,
+                    ].join('|')
+                }
+
                 // SHARED CRITICAL LOGIC from speakersUtils
                 function areMapsEqual<K, V>(
                     map1: Map<K, V>,
@@ -457,7 +514,7 @@ export class TeamsSpeakersObserver {
                         let new_speakers = new Map(
                             currentSpeakersList.map((elem) => [
                                 elem.name,
-                                elem.isSpeaking,
+                                speakerStateKey(elem),
                             ]),
                         )
 
@@ -565,7 +622,10 @@ export class TeamsSpeakersObserver {
                             ).filter((speaker) => speaker.name !== botName)
                             CUR_SPEAKERS.clear()
                             allSpeakers.forEach((elem) =>
-                                CUR_SPEAKERS.set(elem.name, elem.isSpeaking),
+                                CUR_SPEAKERS.set(
+                                    elem.name,
+                                    speakerStateKey(elem),
+                                ),
                             )
                         }
 
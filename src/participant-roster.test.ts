@@ -0,0 +1,60 @@
+import { ParticipantRoster } from './participant-roster'
+import { SpeakerData } from './types'
+
+function participants(...names: string[]): SpeakerData[] {
+    return names.map((name, id) => ({
+        name,
+        id,
+        timestamp: 0,
+        isSpeaking: false,
+    }))
+}
+
+describe('Participant roster', () => {
+    const T0 = Date.UTC(2024, 0, 1, 10, 0, 0)
+
+    it('emits joins for new participants and leaves for missing ones', () => {
+        const roster = new ParticipantRoster()
+
+        expect(roster.update(participants('Alice', 'Bob'), T0)).toEqual([
+            { type: 'participant_joined', name: 'Alice', timestamp: T0 },
+            { type: 'participant_joined', name: 'Bob', timestamp: T0 },
+        ])
+        expect(roster.update(participants('Alice', 'Bob'), T0 + 1000)).toEqual(
+            [],
+        )
+        expect(roster.update(participants('Bob'), T0 + 2000)).toEqual([
+            { type: 'participant_left', name: 'Alice', timestamp: T0 + 2000 },
+        ])
+    })
+
+    it('accumulates presence across several sessions', () => {
+        const roster = new ParticipantRoster()
+
+        roster.update(participants('Alice'), T0)
+        roster.update(participants(), T0 + 60_000)
+        roster.update(participants('Alice'), T0 + 120_000)
+
+        const [alice] = roster.getSummary(T0 + 150_000)
+        expect(alice).toEqual({
+            name: 'Alice',
+            first_seen: new Date(T0).toISOString(),
+            last_seen: new Date(T0 + 150_000).toISOString(),
+            total_presence_seconds: 90,
+            joins: 2,
+        })
+    })
+
+    it('keeps the last seen time of participants who left', () => {
+        const roster = new ParticipantRoster()
+
+        roster.update(participants('Alice', 'Bob'), T0)
+        roster.update(participants('Bob'), T0 + 30_400)
+
+        const alice = roster
+            .getSummary(T0 + 90_000)
+            .find((p) => p.name === 'Alice')
+        expect(alice.last_seen).toBe(new Date(T0 + 30_400).toISOString())
+        expect(alice.total_presence_seconds).toBe(30)
+    })
+})
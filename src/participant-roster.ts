@@ -0,0 +1,183 @@
+import * as fs from 'fs'
+
+import { Events } from './events'
+import { SpeakerData } from './types'
+import { PathManager } from './utils/PathManager'
+
+export type RosterChange = {
+    type: 'participant_joined' | 'participant_left'
+    name: string
+    timestamp: number
+}
+
+export type ParticipantPresence = {
+    name: string
+    first_seen: string
+    last_seen: string
+    total_presence_seconds: number
+    joins: number
+}
+
+type RosterEntry = {
+    name: string
+    firstSeen: number
+    lastSeen: number
+    presentSince: number | null
+    totalPresenceMs: number
+    joins: number
+}
+
+/**
+ * Turns the successive participant lists reported by the speakers observers
+ * into a join/leave timeline and a per participant attendance summary.
+ */
+export class ParticipantRoster {
+    private static instance: ParticipantRoster | null = null
+    private entries: Map<string, RosterEntry> = new Map()
+    private writeQueue: Promise<void> = Promise.resolve()
+
+    public static getInstance(): ParticipantRoster {
+        if (!ParticipantRoster.instance) {
+            ParticipantRoster.instance = new ParticipantRoster()
+        }
+        return ParticipantRoster.instance
+    }
+
+    /**
+     * Diff the current participant list against the roster
+     */
+    public update(speakers: SpeakerData[], now: number): RosterChange[] {
+        const changes: RosterChange[] = []
+        const present = new Set(speakers.map((speaker) => speaker.name))
+
+        for (const name of present) {
+            let entry = this.entries.get(name)
+            if (!entry) {
+                entry = {
+                    name,
+                    firstSeen: now,
+                    lastSeen: now,
+                    presentSince: null,
+                    totalPresenceMs: 0,
+                    joins: 0,
+                }
+                this.entries.set(name, entry)
+            }
+            if (entry.presentSince === null) {
+                entry.presentSince = now
+                entry.joins++
+                changes.push({
+                    type: 'participant_joined',
+                    name,
+                    timestamp: now,
+                })
+            }
+            entry.lastSeen = now
+        }
+
+        for (const entry of this.entries.values()) {
+            if (entry.presentSince !== null && !present.has(entry.name)) {
+                this.closePresence(entry, now)
+                changes.push({
+                    type: 'participant_left',
+                    name: entry.name,
+                    timestamp: now,
+                })
+            }
+        }
+
+        return changes
+    }
+
+    /**
+     * Attendance summary, presence of participants still in the meeting
+     * being counted up to `now`
+     */
+    public getSummary(now: number): ParticipantPresence[] {
+        return Array.from(this.entries.values()).map((entry) => {
+            const ongoingMs =
+                entry.presentSince !== null ? now - entry.presentSince : 0
+            const lastSeen = entry.presentSince !== null ? now : entry.lastSeen
+            return {
+                name: entry.name,
+                first_seen: new Date(entry.firstSeen).toISOString(),
+                last_seen: new Date(lastSeen).toISOString(),
+                total_presence_seconds: Math.round(
+                    (entry.totalPresenceMs + ongoingMs) / 1000,
+                ),
+                joins: entry.joins,
+            }
+        })
+    }
+
+    public async handleSpeakerUpdate(speakers: SpeakerData[]): Promise<void> {
+        const now = Date.now()
+        const changes = this.update(speakers, now)
+        if (changes.length === 0) {
+            return
+        }
+
+        for (const change of changes) {
+            if (change.type === 'participant_joined') {
+                Events.participantJoined(change.name, change.timestamp)
+            } else {
+                Events.participantLeft(change.name, change.timestamp)
+            }
+        }
+        console.log(
+            `[ParticipantRoster] ${changes.length} roster change(s), ${this.countPresent()} present`,
+        )
+
+        await this.writeParticipants(now)
+    }
+
+    /**
+     * Close every open presence at the end of the meeting and write the final file
+     */
+    public async finalize(): Promise<void> {
+        const now = Date.now()
+        for (const entry of this.entries.values()) {
+            if (entry.presentSince !== null) {
+                this.closePresence(entry, now)
+            }
+        }
+        await this.writeParticipants(now)
+    }
+
+    private closePresence(entry: RosterEntry, now: number): void {
+        entry.totalPresenceMs += now - entry.presentSince
+        entry.lastSeen = now
+        entry.presentSince = null
+    }
+
+    /**
+     * Names of the participants currently in the meeting
+     */
+    public getPresentNames(): string[] {
+        return Array.from(this.entries.values())
+            .filter((entry) => entry.presentSince !== null)
+            .map((entry) => entry.name)
+    }
+
+    private countPresent(): number {
+        return Array.from(this.entries.values()).filter(
+            (entry) => entry.presentSince !== null,
+        ).length
+    }
+
+    private writeParticipants(now: number): Promise<void> {
+        // Serialize writes so the file always holds a complete JSON document
+        const content = JSON.stringify(this.getSummary(now), null, 2)
+        this.writeQueue = this.writeQueue.then(() =>
+            fs.promises
+                .writeFile(
+                    PathManager.getInstance().getParticipantsPath(),
+                    content,
+                )
+                .catch((e) => {
+                    console.error('Cannot write participants file:', e)
+                }),
+        )
+        return this.writeQueue
+    }
+}
@@ -0,0 +1,43 @@
+import { keptSegments } from './ScreenRecorder'
+
+describe('keptSegments', () => {
+    const T0 = Date.UTC(2024, 0, 1, 10, 0, 0)
+
+    it('cuts the paused intervals out', () => {
+        expect(
+            keptSegments(
+                [
+                    { start: T0 + 10_000, end: T0 + 20_000 },
+                    { start: T0 + 50_000, end: null },
+                ],
+                T0,
+                60,
+            ),
+        ).toEqual([
+            { start: 0, end: 10 },
+            { start: 20, end: 50 },
+        ])
+    })
+
+    it('starts audio-only recordings at the meeting start', () => {
+        // Raw audio starts in the waiting room, 30 s before the meeting
+        const meetingStart = T0 + 30_000
+        expect(keptSegments([], T0, 90, meetingStart)).toEqual([
+            { start: 30, end: 90 },
+        ])
+        expect(
+            keptSegments(
+                [
+                    { start: T0 + 20_000, end: T0 + 40_000 },
+                    { start: T0 + 60_000, end: T0 + 70_000 },
+                ],
+                T0,
+                90,
+                meetingStart,
+            ),
+        ).toEqual([
+            { start: 40, end: 60 },
+            { start: 70, end: 90 },
+        ])
+    })
+})
@@ -2,13 +2,23 @@ import { ChildProcess, spawn } from 'child_process'
 import { EventEmitter } from 'events'
 import * as fs from 'fs'
 import * as path from 'path'
+import { Config } from '../config'
 import { Streaming } from '../streaming'
 
 import { Page } from 'playwright'
 import { GLOBAL } from '../singleton'
 import { MeetingEndReason } from '../state-machine/types'
 
+import { EventBus } from '../services/event-bus'
 import { HtmlSnapshotService } from '../services/html-snapshot-service'
+import { SpeakerFusion } from '../speaker-fusion'
+import {
+    AudioChunk,
+    createSpeechToTextProvider,
+    transcribeChunks,
+    transcriptionOptions,
+} from '../transcription/transcriber'
+import { SpeechToTextProvider } from '../transcription/types'
 import { calculateVideoOffset } from '../utils/CalculVideoOffset'
 import { PathManager } from '../utils/PathManager'
 import { S3Uploader } from '../utils/S3Uploader'
@@ -19,16 +29,19 @@ const TRANSCRIPTION_CHUNK_DURATION = 3600
 const GRACE_PERIOD_SECONDS = 3
 const STREAMING_SAMPLE_RATE = 24_000
 const AUDIO_SAMPLE_RATE = 44_100 // Improved audio quality
+const TRANSCRIPTION_SAMPLE_RATE = 16_000 // What speech-to-text models run on
+const TRANSCRIPTION_CLEANUP_MARGIN = 5 * 60 * 1000 // cleanup time left to the steps after the recorder
 const AUDIO_BITRATE = '192k' // Improved audio bitrate
 const FLASH_SCREEN_SLEEP_TIME = 4500 // Increased from 4200 for better stability in prod
 const SCREENSHOT_PERIOD = 5 // every 5 seconds instead of 2
 const SCREENSHOT_WIDTH = 480 // reduced for smaller file size
 const SCREENSHOT_HEIGHT = 270 // reduced for smaller file size (16:9 ratio)
 
-// Environment variables for display and virtual speaker monitor
-const DISPLAY = process.env.DISPLAY || ':99'
-const VIRTUAL_SPEAKER_MONITOR =
-    process.env.VIRTUAL_SPEAKER_MONITOR || 'virtual_speaker.monitor'
+// Display and virtual speaker monitor (DISPLAY, VIRTUAL_SPEAKER_MONITOR)
+const DISPLAY = Config.getInstance().get('display')
+const VIRTUAL_SPEAKER_MONITOR = Config.getInstance().get(
+    'virtual_speaker_monitor',
+)
 
 // Dynamic timeout configuration
 const FFMPEG_TIMEOUTS = {
@@ -54,6 +67,7 @@ const calculateFFmpegTimeout = (
         case 'finalTrimFromOffset':
         case 'extractAudioFromVideo':
         case 'createAudioChunks':
+        case 'removePausedSegments':
             // Critical operations: Dynamic scaling based on file size with ceiling
             timeout = Math.max(
                 FFMPEG_TIMEOUTS.COMPLEX_OPERATIONS,
@@ -81,6 +95,45 @@ interface ScreenRecordingConfig {
     audioDevice?: string
 }
 
+// Wall-clock interval during which the recording is paused (end null while still paused)
+export interface PauseInterval {
+    start: number
+    end: number | null
+}
+
+/**
+ * Segments (seconds on the input timeline) to keep from a file starting at
+ * `baseTime` and lasting `duration`: everything from `startTime` on, paused
+ * intervals cut out. Slivers under 50 ms are dropped
+ */
+export function keptSegments(
+    pauseIntervals: PauseInterval[],
+    baseTime: number,
+    duration: number,
+    startTime: number = baseTime,
+): { start: number; end: number }[] {
+    const kept: { start: number; end: number }[] = []
+    let cursor = Math.max(0, (startTime - baseTime) / 1000)
+    for (const interval of pauseIntervals) {
+        const pauseStart = Math.max(0, (interval.start - baseTime) / 1000)
+        const pauseEnd =
+            interval.end === null
+                ? duration
+                : Math.max(0, (interval.end - baseTime) / 1000)
+        if (pauseStart > cursor) {
+            kept.push({
+                start: cursor,
+                end: Math.min(pauseStart, duration),
+            })
+        }
+        cursor = Math.max(cursor, pauseEnd)
+    }
+    if (cursor < duration) {
+        kept.push({ start: cursor, end: duration })
+    }
+    return kept.filter((s) => s.end - s.start > 0.05)
+}
+
 export interface AudioWarningEvent {
     type: 'pulseAudioWarning'
     errorCount: number
@@ -100,6 +153,11 @@ export class ScreenRecorder extends EventEmitter {
     private recordingStartTime: number = 0
     private meetingStartTime: number = 0
     private gracePeriodActive: boolean = false
+    // Time (ms) the post-processing must be over by, null without limit
+    private processingDeadline: number | null = null
+    private pauseIntervals: PauseInterval[] = []
+    // Set when the whole meeting was off the record, the artifacts are empty
+    private pausedThroughout: boolean = false
 
     constructor(config: Partial<ScreenRecordingConfig> = {}) {
         super()
@@ -558,6 +616,10 @@ export class ScreenRecorder extends EventEmitter {
                             timestamp: Date.now(),
                         }
                         this.emit('audioWarning', audioWarning)
+                        EventBus.getInstance().publish(
+                            'audio_warning',
+                            audioWarning,
+                        )
                     }
                 } else {
                     // Reset consecutive error count on non-PulseAudio errors
@@ -588,14 +650,16 @@ export class ScreenRecorder extends EventEmitter {
         try {
             this.ffmpegProcess.stdout?.on('data', (data: Buffer) => {
                 try {
-                    if (Streaming.instance) {
-                        const float32Array = new Float32Array(
-                            data.buffer,
-                            data.byteOffset,
-                            data.length / 4,
-                        )
-                        Streaming.instance.processAudioChunk(float32Array)
-                    }
+                    const float32Array = new Float32Array(
+                        data.buffer,
+                        data.byteOffset,
+                        data.length / 4,
+                    )
+                    Streaming.instance?.processAudioChunk(float32Array)
+                    SpeakerFusion.getInstance().addAudio(
+                        float32Array,
+                        STREAMING_SAMPLE_RATE,
+                    )
                 } catch (error) {
                     console.error('Failed to process audio chunk:', error)
                     // Don't throw - continue processing other chunks
@@ -701,10 +765,15 @@ export class ScreenRecorder extends EventEmitter {
         this.filesUploaded = true
     }
 
-    public async stopRecording(): Promise<void> {
+    /**
+     * @param deadline time (ms) the cleanup must be over by, the transcription
+     * stops early enough for the rest of it
+     */
+    public async stopRecording(deadline: number | null = null): Promise<void> {
         if (!this.isRecording || !this.ffmpegProcess) {
             return
         }
+        this.processingDeadline = deadline
 
         console.log('🛑 Stop recording requested - starting grace period...')
         this.gracePeriodActive = true
@@ -834,13 +903,72 @@ export class ScreenRecorder extends EventEmitter {
         return this.isRecording
     }
 
+    /**
+     * Mark the start of an "off the record" segment.
+     * FFmpeg keeps capturing; the paused interval is cut out of the final
+     * MP4/WAV in syncAndMergeFiles.
+     */
+    public pauseRecording(): void {
+        if (!this.isRecording) {
+            console.warn('⚠️ Cannot pause screen recorder: not recording')
+            return
+        }
+        if (this.isPaused()) {
+            return
+        }
+        this.pauseIntervals.push({ start: Date.now(), end: null })
+        console.log('⏸️ Screen recording paused')
+    }
+
+    public resumeRecording(): void {
+        const current = this.pauseIntervals[this.pauseIntervals.length - 1]
+        if (!current || current.end !== null) {
+            return
+        }
+        current.end = Date.now()
+        console.log(
+            `▶️ Screen recording resumed after ${((current.end - current.start) / 1000).toFixed(1)}s`,
+        )
+    }
+
+    public isPaused(): boolean {
+        const current = this.pauseIntervals[this.pauseIntervals.length - 1]
+        return current !== undefined && current.end === null
+    }
+
+    public wasPausedAt(timestamp: number): boolean {
+        return this.pauseIntervals.some(
+            (interval) =>
+                interval.start <= timestamp &&
+                (interval.end === null || timestamp < interval.end),
+        )
+    }
+
+    /**
+     * Paused time (ms) elapsed between two wall-clock timestamps, used to map
+     * a timestamp onto the final recording timeline.
+     */
+    public getPausedDurationBetween(from: number, to: number): number {
+        let total = 0
+        for (const interval of this.pauseIntervals) {
+            const start = Math.max(interval.start, from)
+            const end = Math.min(interval.end ?? Date.now(), to)
+            if (end > start) {
+                total += end - start
+            }
+        }
+        return total
+    }
+
     public getStatus(): {
         isRecording: boolean
+        isPaused: boolean
         gracePeriodActive: boolean
         recordingDurationMs: number
     } {
         return {
             isRecording: this.isRecording,
+            isPaused: this.isPaused(),
             gracePeriodActive: this.gracePeriodActive,
             recordingDurationMs:
                 this.recordingStartTime > 0
@@ -865,6 +993,11 @@ export class ScreenRecorder extends EventEmitter {
                     console.error('❌ Upload failed:', error)
                 }
             }
+
+            // The recording is safe by now, however long the provider takes
+            if (!this.pausedThroughout) {
+                await this.transcribeAudio(this.audioOutputPath)
+            }
         } catch (error) {
             console.error('❌ Error during recording processing:', error)
 
@@ -907,12 +1040,33 @@ export class ScreenRecorder extends EventEmitter {
             console.log('🔄 Processing audio-only recording...')
 
             if (fs.existsSync(rawAudioPath)) {
-                // Copy raw audio to final output location
-                fs.copyFileSync(rawAudioPath, this.audioOutputPath)
+                // Raw audio starts with the recording itself, in the waiting
+                // room. Keep it from the meeting start like the video, every
+                // offset on the recording is taken from there
+                const startTime = Math.max(
+                    this.meetingStartTime,
+                    this.recordingStartTime,
+                )
+                if (
+                    this.pauseIntervals.length > 0 ||
+                    startTime > this.recordingStartTime
+                ) {
+                    this.pausedThroughout = !(await this.removePausedSegments(
+                        rawAudioPath,
+                        this.audioOutputPath,
+                        this.recordingStartTime,
+                        startTime,
+                    ))
+                } else {
+                    // Copy raw audio to final output location
+                    fs.copyFileSync(rawAudioPath, this.audioOutputPath)
+                }
                 console.log(`✅ Audio copied to: ${this.audioOutputPath}`)
 
                 // Create audio chunks from the final audio file
-                await this.createAudioChunks(this.audioOutputPath)
+                if (!this.pausedThroughout) {
+                    await this.createAudioChunks(this.audioOutputPath)
+                }
             } else {
                 console.error('❌ Raw audio file not found:', rawAudioPath)
             }
@@ -1032,33 +1186,50 @@ export class ScreenRecorder extends EventEmitter {
         )
 
         console.log(`📊 Final duration: ${finalDuration.toFixed(2)}s`)
+        const hasPauses = this.pauseIntervals.length > 0
+        const trimmedPath = hasPauses
+            ? path.join(tempDir, 'trimmed.mp4')
+            : this.outputPath
         await this.finalTrimFromOffset(
             mergedPath,
-            this.outputPath,
+            trimmedPath,
             calcOffsetVideo,
             finalDuration,
         )
 
-        // 7. Extract audio from the final trimmed video (ensures perfect sync)
-        try {
-            await this.extractAudioFromVideo(
+        // 6b. Cut paused segments out (trimmed video starts at meetingStartTime)
+        if (hasPauses) {
+            this.pausedThroughout = !(await this.removePausedSegments(
+                trimmedPath,
                 this.outputPath,
-                this.audioOutputPath,
-            )
-            console.log(
-                `✅ Audio extracted from final video: ${this.audioOutputPath}`,
-            )
+                this.meetingStartTime,
+            ))
+        }
 
-            // 8. Create audio chunks from the extracted audio
-            await this.createAudioChunks(this.audioOutputPath)
-        } catch (error) {
-            console.warn(
-                `⚠️ Audio extraction failed (likely due to bot removal): ${error}`,
-            )
-            console.warn(
-                `⚠️ Continuing without audio extraction to prevent bot hang`,
-            )
-            // Don't throw - allow cleanup to continue
+        // 7. Extract audio from the final trimmed video (ensures perfect sync)
+        if (this.pausedThroughout) {
+            console.warn('⚠️ Nothing was recorded, no audio to extract')
+        } else {
+            try {
+                await this.extractAudioFromVideo(
+                    this.outputPath,
+                    this.audioOutputPath,
+                )
+                console.log(
+                    `✅ Audio extracted from final video: ${this.audioOutputPath}`,
+                )
+
+                // 8. Create audio chunks from the extracted audio
+                await this.createAudioChunks(this.audioOutputPath)
+            } catch (error) {
+                console.warn(
+                    `⚠️ Audio extraction failed (likely due to bot removal): ${error}`,
+                )
+                console.warn(
+                    `⚠️ Continuing without audio extraction to prevent bot hang`,
+                )
+                // Don't throw - allow cleanup to continue
+            }
         }
 
         // 9. Cleanup temporary files
@@ -1067,6 +1238,7 @@ export class ScreenRecorder extends EventEmitter {
             rawAudioPath,
             processedAudioPath,
             mergedPath,
+            ...(hasPauses ? [trimmedPath] : []),
         ])
 
         console.log('✅ Efficient sync and merge completed successfully')
@@ -1244,6 +1416,134 @@ file '${absoluteInputPath}'`
         await this.runFFmpeg(args, 'finalTrimFromOffset', estimatedSizeMB)
     }
 
+    /**
+     * Remove paused intervals from a media file by cutting the kept segments
+     * and joining them with the concat demuxer. Video segments are
+     * re-encoded: a stream copy starts on the keyframe before the cut and
+     * would keep up to a second of the pause. PCM audio is cut on the sample.
+     * @param baseTime wall-clock time (ms) matching position 0 of the input
+     * @param startTime wall-clock time (ms) the output starts at
+     * @returns false when the recording was paused throughout, the output is
+     * then an empty file of the same format
+     */
+    private async removePausedSegments(
+        inputPath: string,
+        outputPath: string,
+        baseTime: number,
+        startTime: number = baseTime,
+    ): Promise<boolean> {
+        const duration = await this.getDuration(inputPath)
+        const segments = keptSegments(
+            this.pauseIntervals,
+            baseTime,
+            duration,
+            startTime,
+        )
+
+        if (segments.length === 0) {
+            // Off the record from start to end is a valid meeting, keep an
+            // empty artifact rather than failing the whole run
+            console.warn(
+                '⏸️ Recording was paused for its entire duration, writing an empty recording',
+            )
+            await this.runFFmpeg(
+                ['-i', inputPath, '-t', '0', '-c', 'copy', '-y', outputPath],
+                'removePausedSegments',
+            )
+            return false
+        }
+
+        console.log(
+            `✂️ Removing ${this.pauseIntervals.length} paused interval(s), keeping ${segments.length} segment(s)`,
+        )
+
+        const tempDir = PathManager.getInstance().getTempPath()
+        const extension = path.extname(outputPath)
+        const concatListFile = path.join(tempDir, 'pause_concat_list.txt')
+        const segmentFiles: string[] = []
+        const estimatedSizeMB = this.estimateFileSizeMB(inputPath)
+        const codecArgs =
+            extension === '.mp4'
+                ? [
+                      '-c:v',
+                      'libx264',
+                      '-preset',
+                      'fast',
+                      '-crf',
+                      '23',
+                      '-profile:v',
+                      'main',
+                      '-pix_fmt',
+                      'yuv420p',
+                      '-g',
+                      '30',
+                      '-bf',
+                      '0',
+                      '-c:a',
+                      'aac',
+                      '-b:a',
+                      AUDIO_BITRATE,
+                  ]
+                : ['-c', 'copy']
+
+        for (const [index, segment] of segments.entries()) {
+            const segmentFile = path.join(
+                tempDir,
+                `kept_segment_${index}${extension}`,
+            )
+            await this.runFFmpeg(
+                [
+                    '-ss',
+                    segment.start.toString(),
+                    '-i',
+                    inputPath,
+                    '-t',
+                    (segment.end - segment.start).toString(),
+                    ...codecArgs,
+                    '-avoid_negative_ts',
+                    'make_zero',
+                    '-y',
+                    segmentFile,
+                ],
+                'removePausedSegments',
+                estimatedSizeMB,
+            )
+            segmentFiles.push(path.resolve(segmentFile))
+        }
+
+        fs.writeFileSync(
+            concatListFile,
+            segmentFiles.map((file) => `file '${file}'`).join('\n'),
+            'utf8',
+        )
+
+        await this.runFFmpeg(
+            [
+                '-f',
+                'concat',
+                '-safe',
+                '0',
+                '-i',
+                concatListFile,
+                '-c',
+                'copy',
+                ...(extension === '.mp4' ? ['-movflags', '+faststart'] : []),
+                '-y',
+                outputPath,
+            ],
+            'removePausedSegments',
+            estimatedSizeMB,
+        )
+
+        // Cleanup temp files
+        for (const file of [...segmentFiles, concatListFile]) {
+            if (fs.existsSync(file)) {
+                fs.unlinkSync(file)
+            }
+        }
+        return true
+    }
+
     private async extractAudioFromVideo(
         videoPath: string,
         audioPath: string,
@@ -1273,7 +1573,9 @@ file '${absoluteInputPath}'`
     }
 
     private async createAudioChunks(audioPath: string): Promise<void> {
-        if (!GLOBAL.get().speech_to_text_provider) return
+        const provider = GLOBAL.get().speech_to_text_provider
+        // Local transcription keeps the audio on this machine
+        if (!provider || provider === 'Local') return
 
         const chunksDir = PathManager.getInstance().getAudioTmpPath()
         if (!fs.existsSync(chunksDir)) {
@@ -1328,6 +1630,97 @@ file '${absoluteInputPath}'`
         }
     }
 
+    /**
+     * Transcribe the recording with the Gladia, RunPod or Local provider and
+     * write the transcript artifact, chunked to the provider's size limit.
+     * Runs after the upload, within the time left in the cleanup
+     */
+    private async transcribeAudio(audioPath: string): Promise<void> {
+        if (!fs.existsSync(audioPath)) return
+
+        let provider: SpeechToTextProvider | null
+        try {
+            const config = Config.getInstance()
+            provider = createSpeechToTextProvider(GLOBAL.get(), {
+                gladia_api_url: config.get('gladia_api_url'),
+                runpod_endpoint_url: config.get('runpod_endpoint_url'),
+                whisper_cpp_path: config.get('whisper_cpp_path'),
+                whisper_model_path: config.get('whisper_model_path'),
+                whisper_threads: config.get('whisper_threads'),
+            })
+        } catch (error) {
+            console.warn(`⚠️ Skipping transcription: ${error}`)
+            return
+        }
+        if (!provider) return
+
+        const deadline =
+            this.processingDeadline !== null
+                ? this.processingDeadline - TRANSCRIPTION_CLEANUP_MARGIN
+                : undefined
+        if (deadline !== undefined && Date.now() >= deadline) {
+            console.warn('⚠️ Skipping transcription: no cleanup time left')
+            return
+        }
+
+        const chunksDir = path.join(
+            PathManager.getInstance().getAudioTmpPath(),
+            'transcription',
+        )
+        fs.mkdirSync(chunksDir, { recursive: true })
+
+        const args = [
+            '-i',
+            audioPath,
+            '-acodec',
+            'pcm_s16le',
+            '-ac',
+            '1',
+            '-ar',
+            TRANSCRIPTION_SAMPLE_RATE.toString(),
+            '-f',
+            'segment',
+            '-segment_time',
+            provider.maxChunkDuration.toString(),
+            '-segment_format',
+            'wav',
+            '-y',
+            path.join(chunksDir, 'chunk-%04d.wav'),
+        ]
+
+        try {
+            await this.runFFmpeg(
+                args,
+                'createAudioChunks',
+                this.estimateFileSizeMB(audioPath),
+            )
+            // Segments are cut at exact sample boundaries, so chunk i starts
+            // at i * maxChunkDuration on the recording
+            const chunks: AudioChunk[] = fs
+                .readdirSync(chunksDir)
+                .filter((file) => file.endsWith('.wav'))
+                .sort()
+                .map((file, index) => ({
+                    path: path.join(chunksDir, file),
+                    offset: index * provider.maxChunkDuration,
+                }))
+
+            const transcript = await transcribeChunks(provider, chunks, {
+                ...transcriptionOptions(GLOBAL.get()),
+                deadline,
+            })
+            await fs.promises.writeFile(
+                PathManager.getInstance().getTranscriptPath(),
+                JSON.stringify(transcript, null, 2),
+            )
+            console.log(
+                `📝 ${provider.name} transcript written: ${transcript.words.length} words`,
+            )
+        } catch (error) {
+            console.error(`❌ ${provider.name} transcription failed:`, error)
+        }
+    }
+
     /**
      * Estimate file size in MB for timeout calculation
      */
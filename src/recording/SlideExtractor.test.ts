@@ -0,0 +1,29 @@
+import { ScreenShareInterval } from '../screenshare-tracker'
+import { findPresentation } from './SlideExtractor'
+
+describe('findPresentation', () => {
+    const T0 = Date.UTC(2024, 0, 1, 10, 0, 0)
+    const intervals: ScreenShareInterval[] = [
+        { presenter: 'Alice', start: T0, end: T0 + 60_000 },
+        { presenter: 'Bob', start: T0 + 120_000, end: null },
+    ]
+
+    it('matches frames captured during a screen share', () => {
+        expect(findPresentation(T0 + 30_000, intervals)?.presenter).toBe(
+            'Alice',
+        )
+        expect(findPresentation(T0 + 600_000, intervals)?.presenter).toBe('Bob')
+    })
+
+    it('ignores frames captured outside screen shares', () => {
+        expect(findPresentation(T0 + 90_000, intervals)).toBeUndefined()
+        expect(findPresentation(T0 - 60_000, intervals)).toBeUndefined()
+    })
+
+    it('accepts frames shortly before the presenting flag was reported', () => {
+        expect(findPresentation(T0 - 2_000, intervals, 3_000)?.presenter).toBe(
+            'Alice',
+        )
+        expect(findPresentation(T0 - 2_000, intervals, 0)).toBeUndefined()
+    })
+})
@@ -0,0 +1,303 @@
+import { ChildProcess, spawn } from 'child_process'
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { Config } from '../config'
+import { ScreenShareInterval, ScreenShareTracker } from '../screenshare-tracker'
+import { GLOBAL } from '../singleton'
+import { PathManager } from '../utils/PathManager'
+import { recordingOffset } from '../utils/timeline'
+import { ScreenRecorderManager } from './ScreenRecorder'
+
+const TESSERACT_PATH = Config.getInstance().get('tesseract_path')
+const DISPLAY = Config.getInstance().get('display')
+const CAPTURE_FRAMERATE = 2 // frames per second looked at for slide changes
+const SLIDE_SCENE_THRESHOLD = 0.3 // scene score above which a frame is a new slide candidate
+const CAPTURE_STOP_TIMEOUT_MS = 5_000
+const SCAN_INTERVAL_MS = 10_000
+// The presenting flag is reported by the speakers observer, a bit after the
+// shared screen shows up in the recording
+const DETECTION_GRACE_MS = 10_000
+const PRESENTATION_START_TOLERANCE_MS = 3_000
+const OCR_TIMEOUT_MS = 60_000
+
+export type SlideEntry = {
+    file: string
+    presenter: string
+    timestamp: string
+    offset: number | null // seconds on the final recording
+    text?: string
+}
+
+/**
+ * Screen share during which a frame captured at `timestamp` was shown, if any
+ */
+export function findPresentation(
+    timestamp: number,
+    intervals: ScreenShareInterval[],
+    toleranceMs: number = PRESENTATION_START_TOLERANCE_MS,
+): ScreenShareInterval | undefined {
+    return intervals.find(
+        (interval) =>
+            timestamp >= interval.start - toleranceMs &&
+            (interval.end === null || timestamp <= interval.end),
+    )
+}
+
+/**
+ * Keeps the scene-change frames captured during a screen share, one image
+ * per distinct slide, and indexes them in `slides/index.json`.
+ */
+export class SlideExtractor {
+    private static instance: SlideExtractor | null = null
+    private slides: SlideEntry[] = []
+    private meetingStartTime: number = 0
+    private scanIntervalId: NodeJS.Timeout | null = null
+    private ocrAvailable: boolean = true
+    private scanQueue: Promise<void> = Promise.resolve()
+    private captureProcess: ChildProcess | null = null
+
+    private constructor() {}
+
+    public static getInstance(): SlideExtractor {
+        if (!SlideExtractor.instance) {
+            SlideExtractor.instance = new SlideExtractor()
+        }
+        return SlideExtractor.instance
+    }
+
+    public start(meetingStartTime: number): void {
+        if (this.scanIntervalId) {
+            return
+        }
+        this.meetingStartTime = meetingStartTime
+
+        // Sort candidates while recording so discarded frames don't pile up
+        this.scanIntervalId = setInterval(() => {
+            void this.processCandidates(Date.now() - DETECTION_GRACE_MS)
+        }, SCAN_INTERVAL_MS)
+        console.log('[SlideExtractor] Started')
+        // A screen may already be shared
+        this.setScreenShareActive(
+            ScreenShareTracker.getInstance().isScreenShareActive(),
+        )
+    }
+
+    /**
+     * Capture the slide candidates only while a screen is shared, scene
+     * detection on full resolution frames being too costly for the whole
+     * meeting. Nothing is captured in audio-only mode.
+     */
+    public setScreenShareActive(active: boolean): void {
+        if (!active) {
+            void this.stopCapture()
+            return
+        }
+        if (
+            this.captureProcess ||
+            !this.scanIntervalId ||
+            GLOBAL.get().recording_mode === 'audio_only'
+        ) {
+            return
+        }
+
+        const pattern = path.join(
+            PathManager.getInstance().getSlideCandidatesPath(),
+            `${Date.now()}_%5d.png`,
+        )
+        // The first frame is a candidate, the shared screen just showed up
+        const child = spawn(
+            'ffmpeg',
+            [
+                '-f',
+                'x11grab',
+                '-video_size',
+                '1280x880',
+                '-framerate',
+                CAPTURE_FRAMERATE.toString(),
+                '-i',
+                DISPLAY,
+                '-vf',
+                `crop=1280:720:0:160,select='eq(n,0)+gt(scene,${SLIDE_SCENE_THRESHOLD})'`,
+                '-fps_mode',
+                'vfr',
+                '-f',
+                'image2',
+                '-y',
+                pattern,
+            ],
+            { stdio: 'ignore' },
+        )
+        child.on('error', (error) => {
+            console.error('[SlideExtractor] Cannot capture slides:', error)
+        })
+        child.on('exit', () => {
+            if (this.captureProcess === child) {
+                this.captureProcess = null
+            }
+        })
+        this.captureProcess = child
+        console.log('[SlideExtractor] Capturing slides')
+    }
+
+    public getSlides(): SlideEntry[] {
+        return [...this.slides]
+    }
+
+    /**
+     * Sort the remaining candidates, OCR the slides and write the index.
+     * To be called once the recorder and the screen-share tracker stopped.
+     */
+    public async finalize(): Promise<void> {
+        if (this.scanIntervalId) {
+            clearInterval(this.scanIntervalId)
+            this.scanIntervalId = null
+        }
+        await this.stopCapture()
+
+        await this.processCandidates(Infinity)
+
+        for (const slide of this.slides) {
+            if (!this.ocrAvailable) {
+                break
+            }
+            if (slide.text === undefined) {
+                slide.text = await this.recognizeText(
+                    path.join(
+                        PathManager.getInstance().getSlidesPath(),
+                        slide.file,
+                    ),
+                )
+            }
+        }
+
+        if (this.slides.length > 0) {
+            await fs.promises.writeFile(
+                PathManager.getInstance().getSlidesIndexPath(),
+                JSON.stringify(this.slides, null, 2),
+            )
+        }
+        console.log(`[SlideExtractor] ${this.slides.length} slide(s) extracted`)
+    }
+
+    private stopCapture(): Promise<void> {
+        const child = this.captureProcess
+        this.captureProcess = null
+        if (!child || child.exitCode !== null) {
+            return Promise.resolve()
+        }
+
+        return new Promise((resolve) => {
+            const timeoutId = setTimeout(() => {
+                child.kill('SIGKILL')
+                resolve()
+            }, CAPTURE_STOP_TIMEOUT_MS)
+            child.once('exit', () => {
+                clearTimeout(timeoutId)
+                console.log('[SlideExtractor] Slide capture stopped')
+                resolve()
+            })
+            // Lets ffmpeg write the frame being encoded
+            child.kill('SIGINT')
+        })
+    }
+
+    /**
+     * Keep or discard every candidate captured before `before`
+     */
+    private processCandidates(before: number): Promise<void> {
+        // Serialize scans so a candidate is never handled twice
+        this.scanQueue = this.scanQueue.then(() =>
+            this.sortCandidates(before).catch((e) => {
+                console.error('[SlideExtractor] Scan failed:', e)
+            }),
+        )
+        return this.scanQueue
+    }
+
+    private async sortCandidates(before: number): Promise<void> {
+        const pathManager = PathManager.getInstance()
+        const candidatesPath = pathManager.getSlideCandidatesPath()
+        if (!fs.existsSync(candidatesPath)) {
+            return
+        }
+
+        const candidates: { file: string; capturedAt: number }[] = []
+        for (const file of await fs.promises.readdir(candidatesPath)) {
+            const stats = await fs.promises.stat(
+                path.join(candidatesPath, file),
+            )
+            if (stats.mtimeMs < before) {
+                candidates.push({ file, capturedAt: stats.mtimeMs })
+            }
+        }
+        candidates.sort((a, b) => a.capturedAt - b.capturedAt)
+
+        const intervals = ScreenShareTracker.getInstance().getIntervals()
+        const recorder = ScreenRecorderManager.getInstance()
+        for (const { file, capturedAt } of candidates) {
+            const candidatePath = path.join(candidatesPath, file)
+            const presentation = findPresentation(capturedAt, intervals)
+            if (!presentation || recorder.wasPausedAt(capturedAt)) {
+                await fs.promises.unlink(candidatePath).catch(() => {})
+                continue
+            }
+
+            const slideFile = `slide_${String(this.slides.length + 1).padStart(3, '0')}.png`
+            await fs.promises.rename(
+                candidatePath,
+                path.join(pathManager.getSlidesPath(), slideFile),
+            )
+            this.slides.push({
+                file: slideFile,
+                presenter: presentation.presenter,
+                timestamp: new Date(capturedAt).toISOString(),
+                offset:
+                    this.meetingStartTime > 0
+                        ? Math.max(
+                              0,
+                              recordingOffset(
+                                  capturedAt,
+                                  this.meetingStartTime,
+                              ),
+                          )
+                        : null,
+            })
+        }
+    }
+
+    /**
+     * OCR a slide with the local tesseract binary, skipped when not installed
+     */
+    private recognizeText(imagePath: string): Promise<string | undefined> {
+        return new Promise((resolve) => {
+            const child = spawn(TESSERACT_PATH, [imagePath, 'stdout'])
+            let output = ''
+
+            child.stdout?.on('data', (data) => {
+                output += data.toString()
+            })
+
+            const timeoutId = setTimeout(() => {
+                console.error(
+                    `[SlideExtractor] OCR timeout for ${path.basename(imagePath)}`,
+                )
+                child.kill('SIGKILL')
+            }, OCR_TIMEOUT_MS)
+
+            child.on('close', (code) => {
+                clearTimeout(timeoutId)
+                resolve(code === 0 ? output.trim() : undefined)
+            })
+
+            child.on('error', (error) => {
+                clearTimeout(timeoutId)
+                console.warn(
+                    `[SlideExtractor] OCR unavailable (${TESSERACT_PATH}): ${error.message}`,
+                )
+                this.ocrAvailable = false
+                resolve(undefined)
+            })
+        })
+    }
+}
@@ -0,0 +1,69 @@
+import { ScreenShareTracker } from './screenshare-tracker'
+import { SpeakerData } from './types'
+
+function participants(...presenters: string[]): SpeakerData[] {
+    return ['Alice', 'Bob', ...presenters]
+        .filter((name, index, names) => names.indexOf(name) === index)
+        .map((name, id) => ({
+            name,
+            id,
+            timestamp: 0,
+            isSpeaking: false,
+            isPresenting: presenters.includes(name),
+        }))
+}
+
+describe('Screen-share tracker', () => {
+    const T0 = Date.UTC(2024, 0, 1, 10, 0, 0)
+
+    it('emits start and stop events around a presentation', () => {
+        const tracker = new ScreenShareTracker()
+
+        expect(tracker.update(participants(), T0)).toEqual([])
+        expect(tracker.update(participants('Alice'), T0 + 1000)).toEqual([
+            {
+                type: 'screenshare_started',
+                presenter: 'Alice',
+                timestamp: T0 + 1000,
+            },
+        ])
+        expect(tracker.update(participants('Alice'), T0 + 2000)).toEqual([])
+        expect(tracker.isScreenShareActive()).toBe(true)
+        expect(tracker.update(participants(), T0 + 3000)).toEqual([
+            {
+                type: 'screenshare_stopped',
+                presenter: 'Alice',
+                timestamp: T0 + 3000,
+            },
+        ])
+        expect(tracker.isScreenShareActive()).toBe(false)
+    })
+
+    it('records one interval per presentation', () => {
+        const tracker = new ScreenShareTracker()
+
+        tracker.update(participants('Alice'), T0)
+        tracker.update(participants('Bob'), T0 + 60_000)
+        tracker.update(participants(), T0 + 90_000)
+        tracker.update(participants('Alice'), T0 + 120_000)
+
+        expect(tracker.getIntervals()).toEqual([
+            { presenter: 'Alice', start: T0, end: T0 + 60_000 },
+            { presenter: 'Bob', start: T0 + 60_000, end: T0 + 90_000 },
+            { presenter: 'Alice', start: T0 + 120_000, end: null },
+        ])
+    })
+
+    it('counts a presenter who left the meeting as stopped', () => {
+        const tracker = new ScreenShareTracker()
+
+        tracker.update(participants('Carol'), T0)
+        expect(tracker.update(participants(), T0 + 5000)).toEqual([
+            {
+                type: 'screenshare_stopped',
+                presenter: 'Carol',
+                timestamp: T0 + 5000,
+            },
+        ])
+    })
+})
@@ -0,0 +1,169 @@
+import * as fs from 'fs'
+
+import { Events } from './events'
+import { SpeakerData } from './types'
+import { PathManager } from './utils/PathManager'
+import { recordingOffset } from './utils/timeline'
+
+export type ScreenShareChange = {
+    type: 'screenshare_started' | 'screenshare_stopped'
+    presenter: string
+    timestamp: number
+}
+
+export type ScreenShareInterval = {
+    presenter: string
+    start: number
+    end: number | null
+}
+
+/**
+ * Turns the presenting flags reported by the speakers observers into
+ * screen-share intervals, so reviewers can jump to the shared content.
+ */
+export class ScreenShareTracker {
+    private static instance: ScreenShareTracker | null = null
+    private intervals: ScreenShareInterval[] = []
+    // Presenter name => index of their open interval
+    private openIntervals: Map<string, number> = new Map()
+    private writeQueue: Promise<void> = Promise.resolve()
+
+    public static getInstance(): ScreenShareTracker {
+        if (!ScreenShareTracker.instance) {
+            ScreenShareTracker.instance = new ScreenShareTracker()
+        }
+        return ScreenShareTracker.instance
+    }
+
+    /**
+     * Diff the current presenters against the open intervals
+     */
+    public update(speakers: SpeakerData[], now: number): ScreenShareChange[] {
+        const changes: ScreenShareChange[] = []
+        const presenters = new Set(
+            speakers
+                .filter((speaker) => speaker.isPresenting)
+                .map((speaker) => speaker.name),
+        )
+
+        for (const presenter of presenters) {
+            if (!this.openIntervals.has(presenter)) {
+                this.openIntervals.set(presenter, this.intervals.length)
+                this.intervals.push({ presenter, start: now, end: null })
+                changes.push({
+                    type: 'screenshare_started',
+                    presenter,
+                    timestamp: now,
+                })
+            }
+        }
+
+        for (const [presenter, index] of this.openIntervals) {
+            if (!presenters.has(presenter)) {
+                this.intervals[index].end = now
+                this.openIntervals.delete(presenter)
+                changes.push({
+                    type: 'screenshare_stopped',
+                    presenter,
+                    timestamp: now,
+                })
+            }
+        }
+
+        return changes
+    }
+
+    public getIntervals(): ScreenShareInterval[] {
+        return this.intervals.map((interval) => ({ ...interval }))
+    }
+
+    public isScreenShareActive(): boolean {
+        return this.openIntervals.size > 0
+    }
+
+    /**
+     * Returns the changes so the caller can switch the recording layout
+     */
+    public async handleSpeakerUpdate(
+        speakers: SpeakerData[],
+        meetingStartTime: number,
+    ): Promise<ScreenShareChange[]> {
+        const now = Date.now()
+        const changes = this.update(speakers, now)
+        if (changes.length === 0) {
+            return changes
+        }
+
+        for (const change of changes) {
+            if (change.type === 'screenshare_started') {
+                Events.screenshareStarted(change.presenter, change.timestamp)
+            } else {
+                Events.screenshareStopped(change.presenter, change.timestamp)
+            }
+        }
+        console.log(
+            `[ScreenShareTracker] ${changes.length} screen-share change(s), ${this.openIntervals.size} active`,
+        )
+
+        await this.writeScreenShares(now, meetingStartTime)
+        return changes
+    }
+
+    /**
+     * Close every open interval at the end of the meeting and write the final file
+     */
+    public async finalize(meetingStartTime: number): Promise<void> {
+        const now = Date.now()
+        for (const index of this.openIntervals.values()) {
+            this.intervals[index].end = now
+        }
+        this.openIntervals.clear()
+        await this.writeScreenShares(now, meetingStartTime)
+    }
+
+    private writeScreenShares(
+        now: number,
+        meetingStartTime: number,
+    ): Promise<void> {
+        if (this.intervals.length === 0) {
+            return this.writeQueue
+        }
+
+        // Offsets on the final recording, null before the recording started
+        const offset = (timestamp: number) =>
+            meetingStartTime > 0
+                ? Math.max(0, recordingOffset(timestamp, meetingStartTime))
+                : null
+        const content = JSON.stringify(
+            this.intervals.map((interval) => {
+                const end = interval.end ?? now
+                return {
+                    presenter: interval.presenter,
+                    started_at: new Date(interval.start).toISOString(),
+                    stopped_at:
+                        interval.end !== null
+                            ? new Date(interval.end).toISOString()
+                            : null,
+                    start_offset: offset(interval.start),
+                    end_offset: offset(end),
+                    duration_seconds: (end - interval.start) / 1000,
+                }
+            }),
+            null,
+            2,
+        )
+
+        // Serialize writes so the file always holds a complete JSON document
+        this.writeQueue = this.writeQueue.then(() =>
+            fs.promises
+                .writeFile(
+                    PathManager.getInstance().getScreenSharesPath(),
+                    content,
+                )
+                .catch((e) => {
+                    console.error('Cannot write screenshares file:', e)
+                }),
+        )
+        return this.writeQueue
+    }
+}
@@ -6,27 +6,45 @@ import { promisify } from 'util'
 
 const execFileAsync = promisify(execFile)
 
+import { Config } from './config'
 import { SoundContext, VideoContext } from './media_context'
+import { ScreenRecorderManager } from './recording/ScreenRecorder'
+import { BotEvent, EventBus } from './services/event-bus'
 import { GLOBAL } from './singleton'
 import { MeetingStateMachine } from './state-machine/machine'
 import { MeetingEndReason } from './state-machine/types'
+import { Streaming } from './streaming'
 import { StopRecordParams } from './types'
+import {
+    captureRawBody,
+    requireAuth,
+    SIGNATURE_HEADER,
+    TIMESTAMP_HEADER,
+} from './utils/requestAuth'
 
 const HOST = '0.0.0.0'
-const PORT = 8080
+const PORT = Config.getInstance().get('server_port')
+const SSE_KEEP_ALIVE_MS = 15000
 
 async function getAllowedOrigins(): Promise<string[]> {
-    return [process.env.ALLOWED_ORIGIN]
+    return [Config.getInstance().get('allowed_origin')]
 }
 
 export async function server() {
     const app = express()
     const allowedOrigins = await getAllowedOrigins()
 
-    app.use(express.urlencoded({ extended: true }))
-    app.use(express.raw({ type: 'application/octet-stream', limit: '1000mb' }))
-    app.use(express.json({ limit: '1000mb' })) // To parse the incoming requests with JSON payloads
-    app.use(express.urlencoded({ limit: '1000mb' }))
+    // Every parser keeps the raw payload around for HMAC request signatures
+    app.use(express.urlencoded({ extended: true, verify: captureRawBody }))
+    app.use(
+        express.raw({
+            type: 'application/octet-stream',
+            limit: '1000mb',
+            verify: captureRawBody,
+        }),
+    )
+    app.use(express.json({ limit: '1000mb', verify: captureRawBody })) // To parse the incoming requests with JSON payloads
+    app.use(express.urlencoded({ limit: '1000mb', verify: captureRawBody }))
 
     app.use((req, res, next) => {
         const origin = req.headers.origin
@@ -40,7 +58,7 @@ export async function server() {
         )
         res.header(
             'Access-Control-Allow-Headers',
-            'Authorization2, Content-Type',
+            `Authorization, Content-Type, ${TIMESTAMP_HEADER}, ${SIGNATURE_HEADER}`,
         )
 
         // trim meeting url
@@ -63,13 +81,13 @@ export async function server() {
         )
         res.header(
             'Access-Control-Allow-Headers',
-            'Authorization2, Content-Type',
+            `Authorization, Content-Type, ${TIMESTAMP_HEADER}, ${SIGNATURE_HEADER}`,
         )
         res.sendStatus(204)
     })
 
     // Leave bot request from api server
-    app.post('/stop_record', async (req, res) => {
+    app.post('/stop_record', requireAuth, async (req, res) => {
         const data: StopRecordParams = req.body
         console.log('end meeting from api server :', data)
 
@@ -124,6 +142,119 @@ export async function server() {
         }
     }
 
+    // Live event stream (Server-Sent Events), late subscribers get a replay
+    // of recent events, or only the missed ones when sending Last-Event-ID.
+    // Events carry transcripts and participant names, so it is authenticated
+    app.get('/events', requireAuth, (req, res) => {
+        res.status(200)
+        res.header('Content-Type', 'text/event-stream')
+        res.header('Cache-Control', 'no-cache')
+        res.header('Connection', 'keep-alive')
+        res.flushHeaders()
+
+        const writeEvent = (event: BotEvent) => {
+            res.write(
+                `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+            )
+        }
+
+        const bus = EventBus.getInstance()
+        const lastEventId = parseInt(
+            req.header('Last-Event-ID') ?? (req.query.last_event_id as string),
+            10,
+        )
+        bus.getRecentEvents(lastEventId).forEach(writeEvent)
+        const unsubscribe = bus.subscribe(writeEvent)
+
+        // Comment lines keep proxies from closing idle connections
+        const keepAlive = setInterval(() => {
+            res.write(': keep-alive\n\n')
+        }, SSE_KEEP_ALIVE_MS)
+
+        req.on('close', () => {
+            clearInterval(keepAlive)
+            unsubscribe()
+        })
+    })
+
+    type ChatRequest = {
+        message: string
+    }
+
+    // Post a message to the meeting chat
+    app.post('/chat', requireAuth, async (req, res) => {
+        const { message } = req.body as ChatRequest
+        if (typeof message !== 'string' || message.trim() === '') {
+            return res.status(400).json({
+                error: 'Invalid chat message',
+                details: 'A non-empty "message" string is required',
+            })
+        }
+
+        const context = MeetingStateMachine.instance?.getContext()
+        if (!context?.playwrightPage || !context.provider) {
+            return res.status(409).json({
+                error: 'Bot is not in the meeting',
+                details: 'Chat messages can only be sent once the bot joined',
+            })
+        }
+
+        const sent = await context.provider.sendChatMessage(
+            context.playwrightPage,
+            message,
+        )
+        if (!sent) {
+            return res.status(500).json({
+                error: 'Failed to send chat message',
+            })
+        }
+
+        return res.json({
+            success: true,
+            message: 'Chat message sent',
+        })
+    })
+
+    // Pause / resume recording ("off the record" segments)
+    app.post('/pause', requireAuth, async (_req, res) => {
+        return toggle_pause(res, true)
+    })
+
+    app.post('/resume', requireAuth, async (_req, res) => {
+        return toggle_pause(res, false)
+    })
+
+    async function toggle_pause(res: any, pause: boolean) {
+        const meetingHandle = MeetingStateMachine.instance
+        if (!meetingHandle) {
+            return res.status(404).json({
+                error: 'No active meeting found',
+            })
+        }
+
+        try {
+            if (pause) {
+                await meetingHandle.pauseRecording()
+            } else {
+                await meetingHandle.resumeRecording()
+            }
+        } catch (error) {
+            console.warn(
+                `Cannot ${pause ? 'pause' : 'resume'} recording:`,
+                (error as Error).message,
+            )
+            return res.status(409).json({
+                error: `Cannot ${pause ? 'pause' : 'resume'} recording`,
+                details: (error as Error).message,
+            })
+        }
+
+        return res.json({
+            success: true,
+            message: pause ? 'Recording paused' : 'Recording resumed',
+        })
+    }
+
     // Get Recording Server Build Version Info
     app.get('/version', async (_req, res) => {
         console.log(`version requested`)
@@ -138,6 +269,32 @@ export async function server() {
             })
     })
 
+    // Live bot state, polled by the orchestrator
+    app.get('/status', (_req, res) => {
+        const meetingHandle = MeetingStateMachine.instance
+        if (!meetingHandle) {
+            return res.status(404).json({
+                error: 'No active meeting found',
+                details: 'The state machine has not been initialized',
+            })
+        }
+
+        const context = meetingHandle.getContext()
+        const startTime = meetingHandle.getStartTime()
+        return res.status(200).json({
+            bot_uuid: GLOBAL.get().bot_uuid,
+            state: meetingHandle.getCurrentState(),
+            start_time: startTime > 0 ? startTime : null,
+            pause_duration_ms: meetingHandle.getPauseDuration(),
+            attendees_count: context.attendeesCount ?? 0,
+            last_speaker_time: context.lastSpeakerTime ?? null,
+            recorder: ScreenRecorderManager.getInstance().getStatus(),
+            sound_level: Streaming.instance?.getCurrentSoundLevel() ?? null,
+            end_reason: GLOBAL.getEndReason(),
+            error: GLOBAL.hasError() ? GLOBAL.getErrorMessage() : null,
+        })
+    })
+
     type Upload = {
         url: string
     }
@@ -150,7 +307,7 @@ export async function server() {
     }
 
     // Upload ressources into the server
-    app.post('/upload', async (request, result) => {
+    app.post('/upload', requireAuth, async (request, result) => {
         const params: Upload = request.body
         console.log(params)
 
@@ -229,7 +386,7 @@ export async function server() {
     })
 
     // Play a given ressource into microphone, camera or both
-    app.post('/play', async (request, result) => {
+    app.post('/play', requireAuth, async (request, result) => {
         const params: Upload = request.body
         console.log(params)
 
@@ -271,6 +428,14 @@ export async function server() {
         })
     })
 
+    if (!GLOBAL.get().secret) {
+        console.warn(
+            Config.getInstance().get('allow_unauthenticated_control')
+                ? '⚠️ No control API secret configured: mutating routes are unauthenticated (allow_unauthenticated_control)'
+                : '⚠️ No control API secret configured: mutating routes are rejected with 403',
+        )
+    }
+
     try {
         app.listen(PORT, HOST)
         console.log(`Running on http://${HOST}:${PORT}`)
@@ -0,0 +1,41 @@
+import { BotEvent, EventBus } from './event-bus'
+
+describe('EventBus', () => {
+    const bus = EventBus.getInstance()
+
+    it('delivers published events to subscribers until they unsubscribe', () => {
+        const received: BotEvent[] = []
+        const unsubscribe = bus.subscribe((event) => received.push(event))
+
+        bus.publish('state_change', { from: 'Recording', to: 'Paused' })
+        unsubscribe()
+        bus.publish('state_change', { from: 'Paused', to: 'Resuming' })
+
+        expect(received).toHaveLength(1)
+        expect(received[0].type).toBe('state_change')
+        expect(received[0].data).toEqual({ from: 'Recording', to: 'Paused' })
+    })
+
+    it('replays only the events missed since the last seen id', () => {
+        bus.publish('status_change', { code: 'joining_call' })
+        const lastSeen = bus.getRecentEvents().pop()
+
+        bus.publish('status_change', { code: 'in_waiting_room' })
+        bus.publish('status_change', { code: 'in_call_recording' })
+
+        const missed = bus.getRecentEvents(lastSeen.id)
+        expect(missed.map((event) => event.data.code)).toEqual([
+            'in_waiting_room',
+            'in_call_recording',
+        ])
+    })
+
+    it('keeps a bounded replay buffer', () => {
+        for (let i = 0; i < 500; i++) {
+            bus.publish('speakers', { speakers: [] })
+        }
+        const events = bus.getRecentEvents()
+        expect(events.length).toBeLessThanOrEqual(200)
+        expect(events[events.length - 1].id).toBeGreaterThan(500)
+    })
+})
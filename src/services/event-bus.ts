@@ -0,0 +1,84 @@
+import { EventEmitter } from 'events'
+
+// Number of recent events kept for late subscribers
+const REPLAY_BUFFER_SIZE = 200
+
+export type BotEventType =
+    | 'state_change'
+    | 'status_change'
+    | 'speakers'
+    | 'audio_warning'
+    | 'chat_message'
+
+export interface BotEvent {
+    id: number
+    type: BotEventType
+    timestamp: number
+    data: Record<string, any>
+}
+
+export type BotEventListener = (event: BotEvent) => void
+
+/**
+ * In-process bus relaying bot activity (state transitions, webhook status
+ * codes, speaker updates, recorder warnings) to live subscribers such as the
+ * `/events` stream. Keeps a ring buffer so late subscribers can catch up.
+ */
+export class EventBus {
+    private static instance: EventBus
+    private emitter = new EventEmitter()
+    private buffer: BotEvent[] = []
+    private nextId = 1
+
+    private constructor() {
+        // Every SSE client is a listener, don't warn on many subscribers
+        this.emitter.setMaxListeners(0)
+    }
+
+    public static getInstance(): EventBus {
+        if (!EventBus.instance) {
+            EventBus.instance = new EventBus()
+        }
+        return EventBus.instance
+    }
+
+    public publish(type: BotEventType, data: Record<string, any> = {}): void {
+        const event: BotEvent = {
+            id: this.nextId++,
+            type,
+            timestamp: Date.now(),
+            data,
+        }
+
+        this.buffer.push(event)
+        if (this.buffer.length > REPLAY_BUFFER_SIZE) {
+            this.buffer.shift()
+        }
+
+        try {
+            this.emitter.emit('event', event)
+        } catch (error) {
+            console.error('[EventBus] Subscriber failed:', error)
+        }
+    }
+
+    /**
+     * Register a listener, returns the unsubscribe function
+     */
+    public subscribe(listener: BotEventListener): () => void {
+        this.emitter.on('event', listener)
+        return () => {
+            this.emitter.off('event', listener)
+        }
+    }
+
+    /**
+     * Buffered events with an id greater than `lastId` (all of them if omitted)
+     */
+    public getRecentEvents(lastId?: number): BotEvent[] {
+        if (lastId === undefined || isNaN(lastId)) {
+            return [...this.buffer]
+        }
+        return this.buffer.filter((event) => event.id > lastId)
+    }
+}
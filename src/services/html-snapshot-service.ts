@@ -2,6 +2,7 @@ import { Page } from '@playwright/test'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import { PathManager } from '../utils/PathManager'
+import { Redactor } from '../utils/Redactor'
 
 export interface HtmlSnapshotResult {
     success: boolean
@@ -94,8 +95,8 @@ export class HtmlSnapshotService {
 
         console.log(`[HtmlSnapshot] Capturing snapshot for ${context}`)
 
-        // Capture HTML content
-        const html = await page.content()
+        // Capture HTML content, tokens can show up in URLs and inline scripts
+        const html = Redactor.getInstance().redactText(await page.content())
 
         // Generate filename
         const filename = this.generateFilename(context)
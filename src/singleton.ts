@@ -1,9 +1,13 @@
-import { NORMAL_END_REASONS } from './state-machine/constants'
+import {
+    NORMAL_END_REASONS,
+    withAutomaticLeaveDefaults,
+} from './state-machine/constants'
 import {
     getErrorMessageFromCode,
     MeetingEndReason,
 } from './state-machine/types'
 import { MeetingParams, RecordingMode } from './types'
+import { validateMeetingParams } from './utils/validateMeetingParams'
 
 class Global {
     private meetingParams: MeetingParams | null = null
@@ -32,7 +36,7 @@ class Global {
                 return 'speaker_view'
             case 'gallery_view':
             case 'GalleryView':
-                return 'speaker_view' // gallery_view maps to speaker_view as requested
+                return 'gallery_view'
             case 'audio_only':
             case 'AudioOnly':
                 return 'audio_only'
@@ -50,23 +54,21 @@ class Global {
             throw new Error('Meeting params are already set')
         }
 
-        // Validate critical parameters before setting them
-        if (
-            !meetingParams.meeting_url ||
-            meetingParams.meeting_url.trim() === ''
-        ) {
-            throw new Error('Missing required parameter: meeting_url')
-        }
-        if (!meetingParams.bot_uuid || meetingParams.bot_uuid.trim() === '') {
-            throw new Error('Missing required parameter: bot_uuid')
+        // Validate every parameter before setting them
+        const errors = validateMeetingParams(meetingParams)
+        if (errors.length > 0) {
+            throw new Error(`Invalid parameters: ${errors.join('; ')}`)
         }
 
-        // Normalize the recording mode before setting
+        // Normalize the recording mode and timeouts before setting
         const normalizedParams = {
             ...meetingParams,
             recording_mode: this.normalizeRecordingMode(
                 meetingParams.recording_mode,
             ),
+            automatic_leave: withAutomaticLeaveDefaults(
+                meetingParams.automatic_leave,
+            ),
         }
 
         this.meetingParams = normalizedParams
@@ -0,0 +1,80 @@
+import { SpeakerFusion } from './speaker-fusion'
+import { SpeakerData } from './types'
+
+const T0 = Date.UTC(2024, 0, 1, 10, 0, 0)
+const SAMPLE_RATE = 1000 // one sample per ms
+
+function speakers(timestamp: number, ...speaking: string[]): SpeakerData[] {
+    return ['Alice', 'Bob'].map((name, id) => ({
+        name,
+        id,
+        timestamp,
+        isSpeaking: speaking.includes(name),
+    }))
+}
+
+// Feed the audio from `from` ms in 500ms chunks, `true` for voice
+function addAudio(
+    fusion: SpeakerFusion,
+    from: number,
+    ...voice: boolean[]
+): void {
+    voice.forEach((heard, index) => {
+        fusion.addAudio(
+            new Float32Array(500).fill(heard ? 0.1 : 0),
+            SAMPLE_RATE,
+            T0 + from + (index + 1) * 500,
+        )
+    })
+}
+
+describe('Speaker fusion', () => {
+    it('moves the speaking changes to the audio onset and offset', () => {
+        const fusion = new SpeakerFusion()
+        // Voice from 2s to 5s
+        addAudio(fusion, 0, false, false, false, false)
+        addAudio(fusion, 2000, true, true, true, true, true, true)
+        addAudio(fusion, 5000, false, false, false, false)
+
+        // The DOM sees Alice 1s late
+        expect(fusion.fuse(speakers(T0 + 3000, 'Alice'))).toEqual([
+            { name: 'Alice', id: 0, timestamp: T0 + 2000, isSpeaking: true },
+            { name: 'Bob', id: 1, timestamp: T0 + 3000, isSpeaking: false },
+        ])
+        expect(fusion.fuse(speakers(T0 + 6000))[0]).toEqual({
+            name: 'Alice',
+            id: 0,
+            timestamp: T0 + 5000,
+            isSpeaking: false,
+        })
+    })
+
+    it('drops a speaking flag while nothing is heard', () => {
+        const fusion = new SpeakerFusion()
+        addAudio(fusion, 0, false, false, false, false, false, false)
+
+        expect(fusion.fuse(speakers(T0 + 2500, 'Bob'))).toEqual(
+            speakers(T0 + 2500),
+        )
+        // Bob really talks later on
+        addAudio(fusion, 3000, true, true)
+        expect(fusion.fuse(speakers(T0 + 3500, 'Bob'))[1]).toEqual({
+            name: 'Bob',
+            id: 1,
+            timestamp: T0 + 3000,
+            isSpeaking: true,
+        })
+    })
+
+    it('lets the speakers through without audio or when disabled', () => {
+        expect(new SpeakerFusion().fuse(speakers(T0, 'Alice'))).toEqual(
+            speakers(T0, 'Alice'),
+        )
+
+        const disabled = new SpeakerFusion(false)
+        addAudio(disabled, 0, false, false, false, false)
+        expect(disabled.fuse(speakers(T0 + 1500, 'Alice'))).toEqual(
+            speakers(T0 + 1500, 'Alice'),
+        )
+    })
+})
@@ -0,0 +1,251 @@
+import { Config } from './config'
+import { MEETING_CONSTANTS } from './state-machine/constants'
+import { SpeakerData } from './types'
+
+// Length of the audio frames the energy envelope is made of
+const FRAME_MS = 50
+// Audio history kept, longer than every search window
+const HISTORY_MS = 10_000
+// Silence needed before an onset and after an offset
+const MIN_SILENCE_MS = 250
+// How far from a DOM change the matching audio onset or offset is looked for
+const BOUNDARY_SEARCH_MS = 1500
+// A speaking flag without any audio since this long before it is a flicker
+const FLICKER_WINDOW_MS = 1000
+
+type AudioFrame = {
+    timestamp: number // ms, start of the frame
+    level: number // 0-100
+}
+
+/**
+ * Sound level (0-100) of a RMS amplitude, as shown in `sound_levels.log`
+ */
+export function toSoundLevel(rms: number): number {
+    return rms > 0.005 ? Math.min(100, rms * 300) : 0
+}
+
+/**
+ * Corrects the speaking flags of the speakers observers with the meeting
+ * audio. The DOM indicators come late and sometimes flicker: a speaker
+ * change is moved to the nearest audio onset or offset, and a speaker
+ * starting while nothing is heard is dropped. Without audio the speakers
+ * go through unchanged.
+ */
+export class SpeakerFusion {
+    private static instance: SpeakerFusion | null = null
+    private frames: AudioFrame[] = []
+    // End of the last frame, ms
+    private audioEnd: number = 0
+    // Speakers speaking after the fusion
+    private speaking: Set<string> = new Set()
+    // Speaker name => their last corrected start or stop, boundaries of a
+    // speaker never go back past it
+    private lastBoundaries: Map<string, number> = new Map()
+
+    constructor(private readonly enabled: boolean = true) {}
+
+    public static getInstance(): SpeakerFusion {
+        if (!SpeakerFusion.instance) {
+            SpeakerFusion.instance = new SpeakerFusion(
+                Config.getInstance().get('speaker_audio_fusion'),
+            )
+        }
+        return SpeakerFusion.instance
+    }
+
+    /**
+     * Add a chunk of the meeting audio (mono float samples) received at
+     * `receivedAt`
+     */
+    public addAudio(
+        samples: Float32Array,
+        sampleRate: number,
+        receivedAt: number = Date.now(),
+    ): void {
+        if (!this.enabled || samples.length === 0) {
+            return
+        }
+
+        const frameLength = Math.max(
+            1,
+            Math.round((sampleRate * FRAME_MS) / 1000),
+        )
+        // The chunk ends when received, never before the previous one
+        let timestamp = Math.max(
+            receivedAt - (samples.length * 1000) / sampleRate,
+            this.audioEnd,
+        )
+        for (let start = 0; start < samples.length; start += frameLength) {
+            const end = Math.min(start + frameLength, samples.length)
+            let sum = 0
+            for (let i = start; i < end; i++) {
+                sum += samples[i] * samples[i]
+            }
+            this.frames.push({
+                timestamp,
+                level: toSoundLevel(Math.sqrt(sum / (end - start))),
+            })
+            timestamp += ((end - start) * 1000) / sampleRate
+        }
+        this.audioEnd = timestamp
+
+        const oldest = timestamp - HISTORY_MS
+        const firstKept = this.frames.findIndex(
+            (frame) => frame.timestamp >= oldest,
+        )
+        this.frames.splice(0, firstKept)
+    }
+
+    /**
+     * Speakers with their flickers dropped and their speaking changes moved
+     * to the audio boundaries
+     */
+    public fuse(speakers: SpeakerData[]): SpeakerData[] {
+        if (!this.enabled) {
+            return speakers
+        }
+
+        const names = new Set(speakers.map((speaker) => speaker.name))
+        for (const name of this.speaking) {
+            if (!names.has(name)) {
+                this.speaking.delete(name)
+            }
+        }
+        if (this.frames.length === 0) {
+            for (const speaker of speakers) {
+                this.track(speaker.name, speaker.isSpeaking, null)
+            }
+            return speakers
+        }
+
+        const latest = this.audioEnd
+        const { onsets, offsets } = this.boundaries()
+
+        return speakers.map((speaker) => {
+            const wasSpeaking = this.speaking.has(speaker.name)
+            if (
+                speaker.timestamp === null ||
+                speaker.timestamp === undefined ||
+                speaker.isSpeaking === wasSpeaking
+            ) {
+                this.track(speaker.name, speaker.isSpeaking, null)
+                return speaker
+            }
+            // Only judged once the audio of that moment is there
+            if (
+                speaker.isSpeaking &&
+                latest >= speaker.timestamp &&
+                this.isSilent(speaker.timestamp - FLICKER_WINDOW_MS, latest)
+            ) {
+                console.log(
+                    `[SpeakerFusion] Dropping speaking flicker without audio at ${speaker.timestamp}`,
+                )
+                return { ...speaker, isSpeaking: false }
+            }
+
+            const timestamp =
+                this.nearest(
+                    speaker.isSpeaking ? onsets : offsets,
+                    speaker.name,
+                    speaker.timestamp,
+                ) ?? speaker.timestamp
+            this.track(speaker.name, speaker.isSpeaking, timestamp)
+            return { ...speaker, timestamp }
+        })
+    }
+
+    private track(
+        name: string,
+        isSpeaking: boolean,
+        boundary: number | null,
+    ): void {
+        if (isSpeaking) {
+            this.speaking.add(name)
+        } else {
+            this.speaking.delete(name)
+        }
+        if (boundary !== null) {
+            this.lastBoundaries.set(name, boundary)
+        }
+    }
+
+    /**
+     * Whether audio covers [from, to] and nothing is heard there
+     */
+    private isSilent(from: number, to: number): boolean {
+        const frames = this.frames.filter(
+            (frame) =>
+                frame.timestamp + FRAME_MS > from && frame.timestamp < to,
+        )
+        return frames.length > 0 && !frames.some((frame) => isActive(frame))
+    }
+
+    /**
+     * Starts of the sounds after a silence, and ends of the sounds followed
+     * by a silence
+     */
+    private boundaries(): { onsets: number[]; offsets: number[] } {
+        const onsets: number[] = []
+        const offsets: number[] = []
+        // Start of the current silence, null while sound is heard
+        let silentSince: number | null = null
+        let heard = false
+
+        for (const frame of this.frames) {
+            if (!isActive(frame)) {
+                silentSince ??= frame.timestamp
+                continue
+            }
+            if (
+                silentSince !== null &&
+                frame.timestamp - silentSince >= MIN_SILENCE_MS
+            ) {
+                if (heard) {
+                    offsets.push(silentSince)
+                }
+                onsets.push(frame.timestamp)
+            }
+            silentSince = null
+            heard = true
+        }
+
+        if (
+            heard &&
+            silentSince !== null &&
+            this.audioEnd - silentSince >= MIN_SILENCE_MS
+        ) {
+            offsets.push(silentSince)
+        }
+        return { onsets, offsets }
+    }
+
+    private nearest(
+        candidates: number[],
+        name: string,
+        timestamp: number,
+    ): number | null {
+        const from = Math.max(
+            timestamp - BOUNDARY_SEARCH_MS,
+            this.lastBoundaries.get(name) ?? -Infinity,
+        )
+        const to = Math.min(timestamp + BOUNDARY_SEARCH_MS, this.audioEnd)
+        let best: number | null = null
+        for (const candidate of candidates) {
+            if (
+                candidate > from &&
+                candidate <= to &&
+                (best === null ||
+                    Math.abs(candidate - timestamp) <
+                        Math.abs(best - timestamp))
+            ) {
+                best = candidate
+            }
+        }
+        return best
+    }
+}
+
+function isActive(frame: AudioFrame): boolean {
+    return frame.level > MEETING_CONSTANTS.SOUND_LEVEL_ACTIVITY_THRESHOLD
+}
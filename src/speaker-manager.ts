@@ -4,6 +4,12 @@ import { MeetingStateMachine } from './state-machine/machine'
 import { Streaming } from './streaming'
 
 import { enablePrintPageLogs } from './browser/page-logger'
+import { DiarizationTracker } from './diarization-tracker'
+import { ParticipantRoster } from './participant-roster'
+import { SlideExtractor } from './recording/SlideExtractor'
+import { ScreenShareTracker } from './screenshare-tracker'
+import { EventBus } from './services/event-bus'
+import { SpeakerFusion } from './speaker-fusion'
 import { ParticipantState } from './state-machine/types'
 import { SpeakerData } from './types'
 import { uploadTranscriptTask } from './uploadTranscripts'
@@ -11,8 +17,6 @@ import { PathManager } from './utils/PathManager'
 
 export class SpeakerManager {
     private static instance: SpeakerManager | null = null
-    private currentSpeaker: SpeakerData | null = null
-    private readonly PAUSE_BETWEEN_SENTENCES = 1000 // 1 second
     private lastSpeakerTime: number | null = null
 
     private constructor() {}
@@ -28,8 +32,13 @@ export class SpeakerManager {
         SpeakerManager.getInstance()
     }
 
-    public async handleSpeakerUpdate(speakers: SpeakerData[]): Promise<void> {
+    public async handleSpeakerUpdate(
+        observedSpeakers: SpeakerData[],
+    ): Promise<void> {
         try {
+            // Align the DOM speaking indicators on the meeting audio
+            const speakers = SpeakerFusion.getInstance().fuse(observedSpeakers)
+
             // Send the speaker state to the streaming service only if RECORDING is enabled
             if (Streaming.instance) {
                 Streaming.instance.send_speaker_state(speakers)
@@ -37,14 +46,24 @@ export class SpeakerManager {
 
             await this.logSpeakers(speakers)
 
+            EventBus.getInstance().publish('speakers', { speakers })
+
             // Count the active speakers
             const speakersCount = this.countActiveSpeakers(speakers)
 
             // Update the meeting state
             this.updateMeetingState(speakers, speakersCount)
 
+            // Track joins and leaves
+            await ParticipantRoster.getInstance().handleSpeakerUpdate(speakers)
+
+            // Track screen shares
+            await this.handleScreenShares(speakers)
+
             // Handle the speaker transcription
-            await this.handleSpeakersTranscription(speakers, speakersCount)
+            await uploadTranscriptTask(
+                DiarizationTracker.getInstance().update(speakers),
+            )
         } catch (error) {
             console.error(
                 '[SpeakerManager] ❌ Error handling speaker update:',
@@ -54,6 +73,27 @@ export class SpeakerManager {
         }
     }
 
+    private async handleScreenShares(speakers: SpeakerData[]): Promise<void> {
+        const screenShares = ScreenShareTracker.getInstance()
+        const changes = await screenShares.handleSpeakerUpdate(
+            speakers,
+            MeetingStateMachine.instance?.getStartTime() ?? 0,
+        )
+        if (changes.length === 0) {
+            return
+        }
+        SlideExtractor.getInstance().setScreenShareActive(
+            screenShares.isScreenShareActive(),
+        )
+
+        // Give the shared content the whole recording frame while it lasts
+        await MeetingStateMachine.instance?.context.htmlCleaner
+            ?.setPresentationActive(screenShares.isScreenShareActive())
+            .catch((e) => {
+                console.error('Cannot switch presentation layout:', e)
+            })
+    }
+
     private async logSpeakers(speakers: SpeakerData[]): Promise<void> {
         const input = JSON.stringify(speakers)
         const maskedSpeakers = speakers.map((speaker, index) => {
@@ -118,79 +158,4 @@ export class SpeakerManager {
 
         MeetingStateMachine.instance.updateParticipantState(participantState)
     }
-
-    private async handleSpeakersTranscription(
-        speakers: SpeakerData[],
-        speakersCount: number,
-    ): Promise<void> {
-        switch (speakersCount) {
-            case 0:
-                await this.handleNoSpeakers(speakers)
-                break
-            case 1:
-                await this.handleSingleSpeaker(speakers)
-                break
-            default:
-                await this.handleMultipleSpeakers(speakers)
-                break
-        }
-    }
-
-    private async handleNoSpeakers(speakers: SpeakerData[]): Promise<void> {
-        if (this.currentSpeaker) {
-            this.currentSpeaker.isSpeaking = false
-            if (speakers.length > 0) {
-                this.currentSpeaker.timestamp = speakers[0].timestamp
-            }
-        }
-    }
-
-    private async handleSingleSpeaker(speakers: SpeakerData[]): Promise<void> {
-        const activeSpeaker = speakers.find((v) => v.isSpeaking === true)
-        if (!activeSpeaker) return
-
-        if (activeSpeaker.name !== this.currentSpeaker?.name) {
-            // Changement de speaker
-            await uploadTranscriptTask(activeSpeaker, false)
-        } else if (this.currentSpeaker.isSpeaking === false) {
-            // The speaker has started speaking again after a pause
-            if (
-                activeSpeaker.timestamp >=
-                this.currentSpeaker.timestamp + this.PAUSE_BETWEEN_SENTENCES
-            ) {
-                await uploadTranscriptTask(activeSpeaker, false)
-            }
-        }
-        this.currentSpeaker = activeSpeaker
-    }
-
-    private async handleMultipleSpeakers(
-        speakers: SpeakerData[],
-    ): Promise<void> {
-        const hasSpeakingCurrentSpeaker = speakers.some(
-            (speaker) =>
-                speaker.name === this.currentSpeaker?.name &&
-                speaker.isSpeaking === true,
-        )
-
-        if (hasSpeakingCurrentSpeaker) {
-            const activeSpeaker = speakers.find(
-                (speaker) => speaker.name === this.currentSpeaker!.name,
-            )
-            if (this.currentSpeaker!.isSpeaking === false) {
-                if (
-                    activeSpeaker.timestamp >=
-                    this.currentSpeaker!.timestamp +
-                        this.PAUSE_BETWEEN_SENTENCES
-                ) {
-                    await uploadTranscriptTask(activeSpeaker, false)
-                }
-            }
-            this.currentSpeaker = activeSpeaker
-        } else {
-            const activeSpeaker = speakers.find((v) => v.isSpeaking === true)
-            await uploadTranscriptTask(activeSpeaker, false)
-            this.currentSpeaker = activeSpeaker
-        }
-    }
 }
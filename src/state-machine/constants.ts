@@ -1,3 +1,4 @@
+import { MeetingParams } from '../types'
 import { MeetingEndReason } from './types'
 
 export const MEETING_CONSTANTS = {
@@ -6,25 +7,58 @@ export const MEETING_CONSTANTS = {
     CHUNK_DURATION: 10_000, // 10 secondes pour chaque chunk
     // TRANSCRIBE_DURATION: 10_000 * MEETING_CONSTANTS.CHUNKS_PER_TRANSCRIPTION, // 3 minutes pour chaque transcription
 
-    // Timeouts
-    SETUP_TIMEOUT: 30_000, // 30 secondes
-    RECORDING_TIMEOUT: 3600 * 4 * 1000, // 4 heures
+    // Timeouts (defaults of the matching automatic_leave params)
+    SETUP_TIMEOUT: 30_000, // 30 secondes, in_call_not_recording_timeout
+    RECORDING_TIMEOUT: 3600 * 4 * 1000, // 4 heures, in_call_recording_timeout
     INITIAL_WAIT_TIME: 1000 * 60 * 7, // 7 minutes
-    SILENCE_TIMEOUT: 1000 * 60 * 10, // 10 minutes
-    EMPTY_MEETING_CONFIRMATION_MS: 45_000, // 45 seconds before confirming no attendees
+    SILENCE_TIMEOUT: 1000 * 60 * 10, // 10 minutes, silence_timeout
+    EMPTY_MEETING_CONFIRMATION_MS: 45_000, // 45 seconds, everyone_left_timeout
+    RECORDING_PERMISSION_TIMEOUT: 60_000, // 1 minute, recording_permission_denied_timeout
     CLEANUP_TIMEOUT: 1000 * 60 * 60, // 1 heure
     RESUMING_TIMEOUT: 1000 * 60 * 60, // 1 heure
+    JOIN_LEAD_TIME: 30_000, // 30 seconds, browser start before join_at
 
     // Autres constantes
     FIND_END_MEETING_SLEEP: 250,
     MAX_RETRIES: 3,
+    SOUND_LEVEL_ACTIVITY_THRESHOLD: 5, // sound level (0-100) considered as activity
 } as const
 
+/**
+ * Fill the optional automatic_leave timeouts (in seconds) with their defaults
+ */
+export function withAutomaticLeaveDefaults(
+    automaticLeave: MeetingParams['automatic_leave'],
+): MeetingParams['automatic_leave'] {
+    return {
+        ...automaticLeave,
+        everyone_left_timeout:
+            automaticLeave.everyone_left_timeout ??
+            MEETING_CONSTANTS.EMPTY_MEETING_CONFIRMATION_MS / 1000,
+        in_call_not_recording_timeout:
+            automaticLeave.in_call_not_recording_timeout ??
+            MEETING_CONSTANTS.SETUP_TIMEOUT / 1000,
+        in_call_recording_timeout:
+            automaticLeave.in_call_recording_timeout ??
+            MEETING_CONSTANTS.RECORDING_TIMEOUT / 1000,
+        recording_permission_denied_timeout:
+            automaticLeave.recording_permission_denied_timeout ??
+            MEETING_CONSTANTS.RECORDING_PERMISSION_TIMEOUT / 1000,
+        silence_timeout:
+            automaticLeave.silence_timeout ??
+            MEETING_CONSTANTS.SILENCE_TIMEOUT / 1000,
+    }
+}
+
 export const NORMAL_END_REASONS = [
     MeetingEndReason.ApiRequest, // User intentionally stopped recording via API
     MeetingEndReason.BotRemoved, // Bot was removed by meeting participants (expected behavior)
     MeetingEndReason.BotRemovedTooEarly, // Bot removed before minimum time but recording still completed
     MeetingEndReason.NoAttendees, // No participants joined the meeting (common scenario)
+    MeetingEndReason.EveryoneLeft, // All participants left the meeting
+    MeetingEndReason.OnlyBotsRemaining, // Only other recording bots are left in the meeting
+    MeetingEndReason.ParticipantLeft, // A participant the bot was following left
+    MeetingEndReason.ScheduledEnd, // Configured time of day reached
     MeetingEndReason.NoSpeaker, // No audio activity detected (silent meeting)
     MeetingEndReason.RecordingTimeout, // Maximum recording duration reached (time limit hit)
 ]
@@ -0,0 +1,298 @@
+import { MeetingEndReason } from '../types'
+import { EndCondition, EndConditionContext, EndDecision } from './types'
+
+// Name fragments of the usual note-taker bots
+export const DEFAULT_BOT_NAMES = [
+    'bot',
+    'notetaker',
+    'note taker',
+    'recorder',
+    'otter',
+    'fireflies',
+    'fathom',
+    'read.ai',
+    'tl;dv',
+]
+
+/**
+ * Leave when no sound has been heard for `timeoutSeconds`
+ */
+export class SilenceCondition implements EndCondition {
+    public readonly name = 'silence'
+
+    constructor(private readonly timeoutSeconds: number) {}
+
+    check(context: EndConditionContext): EndDecision | null {
+        const silenceSeconds = Math.floor(
+            (context.now - context.lastSoundActivity) / 1000,
+        )
+        if (silenceSeconds < this.timeoutSeconds) {
+            return null
+        }
+        return {
+            reason: MeetingEndReason.NoSpeaker,
+            details: `No sound activity for ${silenceSeconds}s (timeout: ${this.timeoutSeconds}s)`,
+        }
+    }
+}
+
+/**
+ * Leave when nobody joined within `nooneJoinedTimeoutSeconds` of the start of
+ * the recording, or when everyone left for `everyoneLeftTimeoutSeconds`.
+ * Nobody having joined is confirmed for as long, and only ends the meeting
+ * once nothing was heard for `silenceTimeoutSeconds` either: the attendees
+ * count can read 0 while people are in the call.
+ */
+export class EmptyMeetingCondition implements EndCondition {
+    public readonly name = 'empty_meeting'
+    private emptySince: number = 0
+
+    constructor(
+        private readonly nooneJoinedTimeoutSeconds: number,
+        private readonly everyoneLeftTimeoutSeconds: number,
+        private readonly silenceTimeoutSeconds: number,
+    ) {}
+
+    check(context: EndConditionContext): EndDecision | null {
+        // Someone is still there if we can hear them
+        if (context.attendeesCount > 0 || context.soundActive) {
+            this.emptySince = 0
+            return null
+        }
+        if (
+            !context.firstUserJoined &&
+            context.now - context.startTime <
+                this.nooneJoinedTimeoutSeconds * 1000
+        ) {
+            return null
+        }
+
+        if (this.emptySince === 0) {
+            this.emptySince = context.now
+            console.log(
+                context.firstUserJoined
+                    ? `[EndConditions] Everyone left, starting empty meeting timer (timeout: ${this.everyoneLeftTimeoutSeconds}s)`
+                    : `[EndConditions] Nobody joined within ${this.nooneJoinedTimeoutSeconds}s, confirming the meeting is empty (${this.everyoneLeftTimeoutSeconds}s)`,
+            )
+            return null
+        }
+
+        const emptySeconds = Math.floor((context.now - this.emptySince) / 1000)
+        if (emptySeconds < this.everyoneLeftTimeoutSeconds) {
+            return null
+        }
+        if (context.firstUserJoined) {
+            return {
+                reason: MeetingEndReason.EveryoneLeft,
+                details: `Meeting empty for ${emptySeconds}s (timeout: ${this.everyoneLeftTimeoutSeconds}s)`,
+            }
+        }
+
+        const silenceSeconds = Math.floor(
+            (context.now - context.lastSoundActivity) / 1000,
+        )
+        if (silenceSeconds < this.silenceTimeoutSeconds) {
+            return null
+        }
+        return {
+            reason: MeetingEndReason.NoAttendees,
+            details: `Nobody joined within ${this.nooneJoinedTimeoutSeconds}s, no sound activity for ${silenceSeconds}s`,
+        }
+    }
+}
+
+/**
+ * Leave once the recording lasted `timeoutSeconds`, paused time excluded
+ * like on the recording itself
+ */
+export class MaxDurationCondition implements EndCondition {
+    public readonly name = 'max_duration'
+
+    constructor(private readonly timeoutSeconds: number) {}
+
+    check(context: EndConditionContext): EndDecision | null {
+        const durationSeconds = Math.floor(
+            (context.now - context.startTime - context.pausedMs) / 1000,
+        )
+        if (durationSeconds < this.timeoutSeconds) {
+            return null
+        }
+        return {
+            reason: MeetingEndReason.RecordingTimeout,
+            details: `Recording lasted ${durationSeconds}s (max: ${this.timeoutSeconds}s)`,
+        }
+    }
+}
+
+/**
+ * Leave when every remaining participant looks like another bot for
+ * `timeoutSeconds`
+ */
+export class OnlyBotsRemainingCondition implements EndCondition {
+    public readonly name = 'only_bots_remaining'
+    private readonly botPatterns: RegExp[]
+    private onlyBotsSince: number = 0
+
+    constructor(
+        private readonly timeoutSeconds: number,
+        botNames: string[] = DEFAULT_BOT_NAMES,
+    ) {
+        // Whole words only so that "Abbott" or "Otterbein" is not a bot
+        this.botPatterns = botNames.map(
+            (name) => new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i'),
+        )
+    }
+
+    check(context: EndConditionContext): EndDecision | null {
+        const onlyBots =
+            context.participants.length > 0 &&
+            context.participants.every((participant) => this.isBot(participant))
+        if (!onlyBots) {
+            this.onlyBotsSince = 0
+            return null
+        }
+
+        if (this.onlyBotsSince === 0) {
+            this.onlyBotsSince = context.now
+            console.log(
+                `[EndConditions] Only bots remaining (${context.participants.join(', ')}), starting timer (timeout: ${this.timeoutSeconds}s)`,
+            )
+        }
+        if (context.now - this.onlyBotsSince < this.timeoutSeconds * 1000) {
+            return null
+        }
+        return {
+            reason: MeetingEndReason.OnlyBotsRemaining,
+            details: `Only bots remaining: ${context.participants.join(', ')}`,
+        }
+    }
+
+    private isBot(participant: string): boolean {
+        return this.botPatterns.some((pattern) => pattern.test(participant))
+    }
+}
+
+/**
+ * Leave when the participant named `participantName` left the meeting for
+ * `timeoutSeconds`. Nothing happens until they have been seen once.
+ */
+export class ParticipantLeftCondition implements EndCondition {
+    public readonly name = 'participant_left'
+    private seen: boolean = false
+    private goneSince: number = 0
+
+    constructor(
+        private readonly participantName: string,
+        private readonly timeoutSeconds: number,
+    ) {}
+
+    check(context: EndConditionContext): EndDecision | null {
+        const expected = this.participantName.trim().toLowerCase()
+        const present = context.participants.some(
+            (participant) => participant.trim().toLowerCase() === expected,
+        )
+        if (present) {
+            this.seen = true
+            this.goneSince = 0
+            return null
+        }
+        if (!this.seen) {
+            return null
+        }
+
+        if (this.goneSince === 0) {
+            this.goneSince = context.now
+            console.log(
+                `[EndConditions] ${this.participantName} left, starting timer (timeout: ${this.timeoutSeconds}s)`,
+            )
+        }
+        if (context.now - this.goneSince < this.timeoutSeconds * 1000) {
+            return null
+        }
+        return {
+            reason: MeetingEndReason.ParticipantLeft,
+            details: `${this.participantName} left the meeting`,
+            participant: this.participantName,
+        }
+    }
+}
+
+/**
+ * Leave at the first `HH:MM` local time in `timezone` after the start of the
+ * recording. Daylight saving changes during the meeting are not accounted for.
+ */
+export class TimeOfDayCondition implements EndCondition {
+    public readonly name = 'time_of_day'
+    private readonly targetSecondsOfDay: number
+    private readonly formatter: Intl.DateTimeFormat
+    private deadline: number | null = null
+
+    constructor(
+        private readonly time: string,
+        private readonly timezone: string = 'UTC',
+    ) {
+        const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time)
+        if (!match) {
+            throw new Error(`Invalid time of day: ${time} (expected HH:MM)`)
+        }
+        this.targetSecondsOfDay =
+            Number(match[1]) * 3600 + Number(match[2]) * 60
+        // Throws a RangeError on unknown timezones
+        this.formatter = new Intl.DateTimeFormat('en-GB', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        })
+    }
+
+    check(context: EndConditionContext): EndDecision | null {
+        if (this.deadline === null) {
+            const delay =
+                (this.targetSecondsOfDay -
+                    this.secondsOfDay(context.startTime) +
+                    86400) %
+                    86400 || 86400
+            this.deadline =
+                Math.floor(context.startTime / 1000) * 1000 + delay * 1000
+        }
+        if (context.now < this.deadline) {
+            return null
+        }
+        return {
+            reason: MeetingEndReason.ScheduledEnd,
+            details: `Reached ${this.time} (${this.timezone})`,
+        }
+    }
+
+    private secondsOfDay(timestamp: number): number {
+        const parts = this.formatter.formatToParts(new Date(timestamp))
+        const part = (type: Intl.DateTimeFormatPartTypes) =>
+            Number(parts.find((p) => p.type === type)?.value ?? 0)
+        return part('hour') * 3600 + part('minute') * 60 + part('second')
+    }
+}
+
+/**
+ * Leave at the end of the scheduled recording window, `stop_recording_at`
+ */
+export class StopRecordingAtCondition implements EndCondition {
+    public readonly name = 'stop_recording_at'
+
+    constructor(private readonly stopAt: number) {}
+
+    check(context: EndConditionContext): EndDecision | null {
+        if (context.now < this.stopAt) {
+            return null
+        }
+        return {
+            reason: MeetingEndReason.ScheduledEnd,
+            details: `Reached stop_recording_at ${new Date(this.stopAt).toISOString()}`,
+        }
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
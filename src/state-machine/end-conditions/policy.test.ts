@@ -0,0 +1,268 @@
+import { MeetingEndReason } from '../types'
+import { EndConditionPolicy } from './policy'
+import { EndConditionContext } from './types'
+
+describe('End condition policy', () => {
+    const T0 = Date.UTC(2024, 0, 1, 10, 0, 0)
+    const automatic_leave = {
+        waiting_room_timeout: 600,
+        noone_joined_timeout: 600,
+        everyone_left_timeout: 45,
+        silence_timeout: 600,
+    }
+
+    function context(
+        overrides: Partial<EndConditionContext>,
+    ): EndConditionContext {
+        return {
+            now: T0,
+            startTime: T0,
+            pausedMs: 0,
+            attendeesCount: 1,
+            firstUserJoined: true,
+            participants: ['Alice'],
+            soundActive: false,
+            lastSoundActivity: T0,
+            ...overrides,
+        }
+    }
+
+    it('defaults to the automatic_leave timeouts', () => {
+        const policy = EndConditionPolicy.fromParams({ automatic_leave })
+        expect(policy.getNames()).toEqual(['empty_meeting', 'silence'])
+
+        expect(policy.evaluate(context({ now: T0 + 600_000 }))?.reason).toBe(
+            MeetingEndReason.NoSpeaker,
+        )
+    })
+
+    it('confirms nobody joined and waits for the silence', () => {
+        const policy = EndConditionPolicy.fromParams({ automatic_leave })
+        const nobody = {
+            attendeesCount: 0,
+            firstUserJoined: false,
+            participants: [],
+            lastSoundActivity: T0 + 60_000,
+        }
+
+        expect(
+            policy.evaluate(context({ ...nobody, now: T0 + 600_000 })),
+        ).toBeNull()
+        // Confirmed but somebody was heard less than silence_timeout ago
+        expect(
+            policy.evaluate(context({ ...nobody, now: T0 + 645_000 })),
+        ).toBeNull()
+        expect(
+            policy.evaluate(context({ ...nobody, now: T0 + 660_000 }))?.reason,
+        ).toBe(MeetingEndReason.NoAttendees)
+    })
+
+    it('waits for everyone_left_timeout unless someone is heard', () => {
+        const policy = EndConditionPolicy.fromParams({ automatic_leave })
+        const empty = { attendeesCount: 0, participants: [] }
+
+        expect(policy.evaluate(context({ ...empty, now: T0 }))).toBeNull()
+        expect(
+            policy.evaluate(
+                context({ ...empty, now: T0 + 30_000, soundActive: true }),
+            ),
+        ).toBeNull()
+        expect(
+            policy.evaluate(context({ ...empty, now: T0 + 60_000 })),
+        ).toBeNull()
+        expect(
+            policy.evaluate(
+                context({
+                    ...empty,
+                    now: T0 + 105_000,
+                    lastSoundActivity: T0 + 30_000,
+                }),
+            )?.reason,
+        ).toBe(MeetingEndReason.EveryoneLeft)
+    })
+
+    it('checks the configured conditions in order', () => {
+        const policy = EndConditionPolicy.fromParams({
+            automatic_leave,
+            end_conditions: [
+                { type: 'max_duration', timeout: 60 },
+                { type: 'silence', timeout: 30 },
+            ],
+        })
+
+        expect(policy.evaluate(context({ now: T0 + 30_000 }))?.reason).toBe(
+            MeetingEndReason.NoSpeaker,
+        )
+        expect(policy.evaluate(context({ now: T0 + 60_000 }))?.reason).toBe(
+            MeetingEndReason.RecordingTimeout,
+        )
+    })
+
+    it('leaves at max_duration of recorded time, pauses excluded', () => {
+        const policy = EndConditionPolicy.fromParams({
+            automatic_leave,
+            end_conditions: [{ type: 'max_duration', timeout: 60 }],
+        })
+        const heard = { lastSoundActivity: T0 + 60_000 }
+
+        expect(
+            policy.evaluate(
+                context({ ...heard, now: T0 + 60_000, pausedMs: 30_000 }),
+            ),
+        ).toBeNull()
+        expect(
+            policy.evaluate(
+                context({ ...heard, now: T0 + 90_000, pausedMs: 30_000 }),
+            )?.reason,
+        ).toBe(MeetingEndReason.RecordingTimeout)
+    })
+
+    it('leaves when only bots remain', () => {
+        const policy = EndConditionPolicy.fromParams({
+            automatic_leave,
+            end_conditions: [{ type: 'only_bots_remaining', timeout: 10 }],
+        })
+        const bots = ['Otter.ai', 'Fireflies.ai Notetaker']
+
+        expect(
+            policy.evaluate(
+                context({ now: T0 + 60_000, participants: ['Jane Abbott'] }),
+            ),
+        ).toBeNull()
+        expect(policy.evaluate(context({ participants: bots }))).toBeNull()
+        expect(
+            policy.evaluate(
+                context({ now: T0 + 5_000, participants: [...bots, 'Alice'] }),
+            ),
+        ).toBeNull()
+        expect(
+            policy.evaluate(context({ now: T0 + 10_000, participants: bots })),
+        ).toBeNull()
+        expect(
+            policy.evaluate(context({ now: T0 + 20_000, participants: bots }))
+                ?.reason,
+        ).toBe(MeetingEndReason.OnlyBotsRemaining)
+    })
+
+    it('only takes whole bot names as bots', () => {
+        const policy = () =>
+            EndConditionPolicy.fromParams({
+                automatic_leave,
+                end_conditions: [{ type: 'only_bots_remaining', timeout: 10 }],
+            })
+
+        for (const human of ['Thabo Botha', 'Sam Otterbein', 'Jane Abbott']) {
+            const humanPolicy = policy()
+            humanPolicy.evaluate(context({ participants: [human] }))
+            expect(
+                humanPolicy.evaluate(
+                    context({ now: T0 + 20_000, participants: [human] }),
+                ),
+            ).toBeNull()
+        }
+
+        const botPolicy = policy()
+        const bots = ['Robot Notetaker bot', 'BOT']
+        botPolicy.evaluate(context({ participants: bots }))
+        expect(
+            botPolicy.evaluate(
+                context({ now: T0 + 20_000, participants: bots }),
+            )?.reason,
+        ).toBe(MeetingEndReason.OnlyBotsRemaining)
+    })
+
+    it('leaves when the named participant left', () => {
+        const policy = EndConditionPolicy.fromParams({
+            automatic_leave,
+            end_conditions: [{ type: 'participant_left', name: 'bob' }],
+        })
+
+        // Not joined yet
+        expect(policy.evaluate(context({ participants: ['Alice'] }))).toBeNull()
+        expect(
+            policy.evaluate(context({ participants: ['Alice', 'Bob'] })),
+        ).toBeNull()
+        expect(
+            policy.evaluate(context({ participants: ['Alice'] })),
+        ).toMatchObject({
+            reason: MeetingEndReason.ParticipantLeft,
+            participant: 'bob',
+        })
+    })
+
+    it('leaves at the first occurrence of the time of day', () => {
+        const policy = EndConditionPolicy.fromParams({
+            automatic_leave,
+            end_conditions: [
+                {
+                    type: 'time_of_day',
+                    time: '11:30',
+                    timezone: 'Europe/Paris',
+                },
+            ],
+        })
+
+        // 10:00 UTC is 11:00 in Paris in January
+        expect(policy.evaluate(context({ now: T0 + 1_799_000 }))).toBeNull()
+        expect(policy.evaluate(context({ now: T0 + 1_800_000 }))?.reason).toBe(
+            MeetingEndReason.ScheduledEnd,
+        )
+
+        const nextDay = EndConditionPolicy.fromParams({
+            automatic_leave,
+            end_conditions: [{ type: 'time_of_day', time: '09:00' }],
+        })
+        expect(nextDay.evaluate(context({ now: T0 + 3_600_000 }))).toBeNull()
+        expect(
+            nextDay.evaluate(context({ now: T0 + 23 * 3_600_000 }))?.reason,
+        ).toBe(MeetingEndReason.ScheduledEnd)
+    })
+
+    it('leaves first at stop_recording_at', () => {
+        const policy = EndConditionPolicy.fromParams({
+            automatic_leave,
+            stop_recording_at: '2024-01-01T10:30:00Z',
+        })
+        expect(policy.getNames()).toEqual([
+            'stop_recording_at',
+            'empty_meeting',
+            'silence',
+        ])
+
+        expect(
+            policy.evaluate(
+                context({
+                    now: T0 + 1_799_000,
+                    lastSoundActivity: T0 + 1_799_000,
+                }),
+            ),
+        ).toBeNull()
+        // Before the silence timeout already met
+        expect(policy.evaluate(context({ now: T0 + 1_800_000 }))?.reason).toBe(
+            MeetingEndReason.ScheduledEnd,
+        )
+    })
+
+    it('rejects invalid conditions', () => {
+        const build = (end_conditions: any) => () =>
+            EndConditionPolicy.fromParams({ automatic_leave, end_conditions })
+
+        expect(build([{ type: 'max_duration' }])).toThrow(
+            'Invalid parameter: end_conditions[0]: timeout must be a positive number of seconds',
+        )
+        expect(build([{ type: 'silence' }, { type: 'unknown' }])).toThrow(
+            'end_conditions[1]',
+        )
+        expect(build([{ type: 'participant_left' }])).toThrow(
+            'name is required',
+        )
+        expect(build([{ type: 'time_of_day', time: '25:00' }])).toThrow(
+            'Invalid time of day',
+        )
+        expect(
+            build([
+                { type: 'time_of_day', time: '10:00', timezone: 'Mars/Base' },
+            ]),
+        ).toThrow()
+    })
+})
@@ -0,0 +1,161 @@
+import { EndConditionConfig, MeetingParams } from '../../types'
+import { parseScheduleTime } from '../../utils/recordingWindow'
+import {
+    EmptyMeetingCondition,
+    MaxDurationCondition,
+    OnlyBotsRemainingCondition,
+    ParticipantLeftCondition,
+    SilenceCondition,
+    StopRecordingAtCondition,
+    TimeOfDayCondition,
+} from './conditions'
+import { EndCondition, EndConditionContext, EndDecision } from './types'
+
+const DEFAULT_ONLY_BOTS_TIMEOUT_SECONDS = 30
+
+/**
+ * Ordered list of end conditions checked by the recording state, the first
+ * condition met decides why the bot leaves.
+ */
+export class EndConditionPolicy {
+    constructor(private readonly conditions: EndCondition[]) {}
+
+    /**
+     * Build the policy from `end_conditions`, or from the automatic_leave
+     * timeouts when no policy is configured. A scheduled `stop_recording_at`
+     * is checked before them.
+     * @throws Error on an invalid condition
+     */
+    public static fromParams(
+        params: Pick<
+            MeetingParams,
+            'automatic_leave' | 'end_conditions' | 'stop_recording_at'
+        >,
+    ): EndConditionPolicy {
+        const automaticLeave = params.automatic_leave
+        const configs: EndConditionConfig[] = params.end_conditions ?? [
+            { type: 'empty_meeting' },
+            { type: 'silence' },
+        ]
+        if (!Array.isArray(configs)) {
+            throw new Error(
+                'Invalid parameter: end_conditions: must be an array',
+            )
+        }
+
+        const conditions = configs.map((config, index) => {
+            try {
+                return createEndCondition(config, automaticLeave)
+            } catch (error) {
+                throw new Error(
+                    `Invalid parameter: end_conditions[${index}]: ${(error as Error).message}`,
+                )
+            }
+        })
+
+        let stopAt: number | null
+        try {
+            stopAt = parseScheduleTime(params.stop_recording_at)
+        } catch (error) {
+            throw new Error(
+                `Invalid parameter: stop_recording_at: ${(error as Error).message}`,
+            )
+        }
+        if (stopAt !== null) {
+            conditions.unshift(new StopRecordingAtCondition(stopAt))
+        }
+
+        return new EndConditionPolicy(conditions)
+    }
+
+    public getNames(): string[] {
+        return this.conditions.map((condition) => condition.name)
+    }
+
+    public evaluate(context: EndConditionContext): EndDecision | null {
+        for (const condition of this.conditions) {
+            const decision = condition.check(context)
+            if (decision) {
+                console.log(
+                    `[EndConditions] ${condition.name} met: ${decision.details} => ${decision.reason}`,
+                )
+                return decision
+            }
+        }
+        return null
+    }
+}
+
+function createEndCondition(
+    config: EndConditionConfig,
+    automaticLeave: MeetingParams['automatic_leave'],
+): EndCondition {
+    switch (config?.type) {
+        case 'silence':
+            return new SilenceCondition(
+                seconds(
+                    config.timeout ?? automaticLeave.silence_timeout,
+                    'timeout',
+                ),
+            )
+        case 'empty_meeting':
+            return new EmptyMeetingCondition(
+                seconds(
+                    config.noone_joined_timeout ??
+                        automaticLeave.noone_joined_timeout,
+                    'noone_joined_timeout',
+                ),
+                seconds(
+                    config.everyone_left_timeout ??
+                        automaticLeave.everyone_left_timeout,
+                    'everyone_left_timeout',
+                ),
+                seconds(automaticLeave.silence_timeout, 'silence_timeout'),
+            )
+        case 'max_duration':
+            return new MaxDurationCondition(seconds(config.timeout, 'timeout'))
+        case 'only_bots_remaining':
+            if (
+                config.bot_names !== undefined &&
+                (!Array.isArray(config.bot_names) ||
+                    config.bot_names.some(
+                        (name) => typeof name !== 'string' || !name.trim(),
+                    ))
+            ) {
+                throw new Error('bot_names must be a list of names')
+            }
+            return new OnlyBotsRemainingCondition(
+                seconds(
+                    config.timeout ?? DEFAULT_ONLY_BOTS_TIMEOUT_SECONDS,
+                    'timeout',
+                ),
+                config.bot_names,
+            )
+        case 'participant_left':
+            if (typeof config.name !== 'string' || !config.name.trim()) {
+                throw new Error('name is required')
+            }
+            return new ParticipantLeftCondition(
+                config.name,
+                seconds(config.timeout ?? 0, 'timeout', true),
+            )
+        case 'time_of_day':
+            return new TimeOfDayCondition(config.time, config.timezone)
+        default:
+            throw new Error(
+                `unknown condition type ${(config as { type?: unknown })?.type}`,
+            )
+    }
+}
+
+function seconds(value: unknown, name: string, allowZero = false): number {
+    if (
+        typeof value !== 'number' ||
+        !Number.isFinite(value) ||
+        value < 0 ||
+        (value === 0 && !allowZero)
+    ) {
+        throw new Error(`${name} must be a positive number of seconds`)
+    }
+    return value
+}
@@ -0,0 +1,32 @@
+import { MeetingEndReason } from '../types'
+
+export type EndConditionContext = {
+    now: number
+    // Start of the recording
+    startTime: number
+    // Time (ms) the recording was paused since `startTime`
+    pausedMs: number
+    attendeesCount: number
+    firstUserJoined: boolean
+    // Names of the participants currently in the meeting, bot excluded
+    participants: string[]
+    soundActive: boolean
+    lastSoundActivity: number
+}
+
+export type EndDecision = {
+    reason: MeetingEndReason
+    // Human-readable explanation, logged with the decision
+    details: string
+    // Participant the decision is about, if any
+    participant?: string
+}
+
+export interface EndCondition {
+    readonly name: string
+    /**
+     * Called on every recording loop iteration
+     * @returns the decision to leave the meeting, null to keep recording
+     */
+    check(context: EndConditionContext): EndDecision | null
+}
@@ -0,0 +1,98 @@
+import { EventBus } from '../services/event-bus'
+import { GLOBAL } from '../singleton'
+import { MeetingStateMachine } from './machine'
+import { getStateInstance } from './states'
+import { MeetingContext, MeetingStateType } from './types'
+
+jest.mock('./states', () => ({ getStateInstance: jest.fn() }))
+jest.mock('../meeting/meet', () => ({ MeetProvider: jest.fn() }))
+jest.mock('../meeting/teams', () => ({ TeamsProvider: jest.fn() }))
+jest.mock('../services/dialog-observer/simple-dialog-observer', () => ({
+    SimpleDialogObserver: jest.fn(),
+}))
+
+async function waitFor(check: () => boolean): Promise<void> {
+    while (!check()) {
+        await new Promise((resolve) => setTimeout(resolve, 1))
+    }
+}
+
+describe('MeetingStateMachine', () => {
+    beforeAll(() => {
+        GLOBAL.set({
+            meeting_url: 'https://meet.google.com/abc-defg-hij',
+            bot_uuid: 'bot-1',
+            bot_name: 'Recording Bot',
+            automatic_leave: {
+                waiting_room_timeout: 600,
+                noone_joined_timeout: 600,
+            },
+            remote: null,
+        } as any)
+    })
+
+    it('publishes the pause and resume transitions', async () => {
+        // Fake states following the context flags like the real ones
+        let resumed = false
+        const next: Record<string, (context: MeetingContext) => Promise<any>> =
+            {
+                [MeetingStateType.Initialization]: async () =>
+                    MeetingStateType.Recording,
+                [MeetingStateType.Recording]: async (context) => {
+                    await waitFor(() => context.isPaused || resumed)
+                    return context.isPaused
+                        ? MeetingStateType.Paused
+                        : MeetingStateType.Terminated
+                },
+                [MeetingStateType.Paused]: async (context) => {
+                    await waitFor(() => !context.isPaused)
+                    return MeetingStateType.Resuming
+                },
+                [MeetingStateType.Resuming]: async () => {
+                    resumed = true
+                    return MeetingStateType.Recording
+                },
+            }
+        ;(getStateInstance as jest.Mock).mockImplementation(
+            (type: MeetingStateType, context: MeetingContext) => ({
+                execute: async () => ({
+                    nextState: await next[type](context),
+                    context,
+                }),
+            }),
+        )
+
+        const transitions: { from: string; to: string }[] = []
+        const unsubscribe = EventBus.getInstance().subscribe((event) => {
+            if (event.type === 'state_change') {
+                transitions.push({ from: event.data.from, to: event.data.to })
+            }
+        })
+
+        const machine = new MeetingStateMachine()
+        const run = machine.start()
+
+        await waitFor(
+            () => machine.getCurrentState() === MeetingStateType.Recording,
+        )
+        await machine.pauseRecording()
+        await expect(machine.pauseRecording()).rejects.toThrow()
+        await waitFor(
+            () => machine.getCurrentState() === MeetingStateType.Paused,
+        )
+        expect(machine.isPaused()).toBe(true)
+
+        await machine.resumeRecording()
+        await run
+        unsubscribe()
+
+        expect(machine.isPaused()).toBe(false)
+        expect(transitions).toEqual([
+            { from: 'initialization', to: 'recording' },
+            { from: 'recording', to: 'paused' },
+            { from: 'paused', to: 'resuming' },
+            { from: 'resuming', to: 'recording' },
+            { from: 'recording', to: 'terminated' },
+        ])
+    })
+})
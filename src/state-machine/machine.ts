@@ -4,6 +4,7 @@ import { MeetProvider } from '../meeting/meet'
 import { TeamsProvider } from '../meeting/teams'
 import { SimpleDialogObserver } from '../services/dialog-observer/simple-dialog-observer'
 import { GLOBAL } from '../singleton'
+import { EventBus } from '../services/event-bus'
 import { MeetingProviderInterface } from '../types'
 import { getStateInstance } from './states'
 import { MeetingContext } from './types'
@@ -49,6 +50,7 @@ export class MeetingStateMachine {
                 const state = getStateInstance(this.currentState, this.context)
                 const transition = await state.execute()
 
+                this.publishTransition(this.currentState, transition.nextState)
                 this.currentState = transition.nextState
                 this.context = transition.context
             }
@@ -83,31 +85,43 @@ export class MeetingStateMachine {
         GLOBAL.setError(MeetingEndReason.Internal, error.message)
 
         // Transition to error state - the main loop will handle the rest
+        this.publishTransition(this.currentState, MeetingStateType.Error)
         this.currentState = MeetingStateType.Error
     }
 
+    private publishTransition(
+        from: MeetingStateType,
+        to: MeetingStateType,
+    ): void {
+        EventBus.getInstance().publish('state_change', { from, to })
+    }
+
     public async pauseRecording(): Promise<void> {
-        if (this.currentState !== MeetingStateType.Recording) {
+        if (
+            this.currentState !== MeetingStateType.Recording ||
+            this.context.isPaused
+        ) {
             throw new Error('Cannot pause: meeting is not in recording state')
         }
 
+        // The recording state sees the flag and hands over to the paused
+        // state, the loop publishes the transition
         console.info('Pause requested')
         this.context.isPaused = true
-        this.currentState = MeetingStateType.Paused
     }
 
     public async resumeRecording(): Promise<void> {
-        if (this.currentState !== MeetingStateType.Paused) {
+        if (!this.context.isPaused) {
             throw new Error('Cannot resume: meeting is not paused')
         }
 
+        // The paused state sees the flag and hands over to the resuming state
         console.info('Resume requested')
         this.context.isPaused = false
-        this.currentState = MeetingStateType.Resuming
     }
 
     public isPaused(): boolean {
-        return this.currentState === MeetingStateType.Paused
+        return this.context.isPaused === true
     }
 
     public getPauseDuration(): number {
@@ -1,6 +1,23 @@
+import * as fs from 'fs'
+
+import { CaptionManager } from '../../caption-manager'
+import { DiarizationTracker } from '../../diarization-tracker'
 import { SoundContext, VideoContext } from '../../media_context'
+import { writeMeetingAnalytics } from '../../meeting-analytics'
+import { ParticipantRoster } from '../../participant-roster'
 import { ScreenRecorderManager } from '../../recording/ScreenRecorder'
+import { SlideExtractor } from '../../recording/SlideExtractor'
+import { ScreenShareTracker } from '../../screenshare-tracker'
 import { HtmlSnapshotService } from '../../services/html-snapshot-service'
+import { GLOBAL } from '../../singleton'
+import { writeSpeakerTranscript } from '../../transcription/assembler'
+import { uploadTranscriptTask } from '../../uploadTranscripts'
+import { PathManager } from '../../utils/PathManager'
+import {
+    getRecordingWindow,
+    hasRecordingWindow,
+    recordingWindowToJson,
+} from '../../utils/recordingWindow'
 
 import { MEETING_CONSTANTS } from '../constants'
 import { MeetingStateType, StateExecuteResult } from '../types'
@@ -12,7 +29,8 @@ export class CleanupState extends BaseState {
             console.info('🧹 Starting cleanup sequence')
 
             // Use Promise.race to implement the timeout
-            const cleanupPromise = this.performCleanup()
+            const deadline = Date.now() + MEETING_CONSTANTS.CLEANUP_TIMEOUT
+            const cleanupPromise = this.performCleanup(deadline)
             const timeoutPromise = new Promise((_, reject) => {
                 setTimeout(
                     () => reject(new Error('Cleanup timeout')),
@@ -38,7 +56,7 @@ export class CleanupState extends BaseState {
         }
     }
 
-    private async performCleanup(): Promise<void> {
+    private async performCleanup(deadline: number): Promise<void> {
         try {
             // 1. Stop the dialog observer
             console.info(
@@ -53,9 +71,13 @@ export class CleanupState extends BaseState {
                 )
             }
 
+            // The bot stops recording now, before the video post-processing
+            const stoppedAt = Date.now()
+            await this.writeRecordingWindow(stoppedAt)
+
             // 🎬 PRIORITY 2: Stop video recording immediately to avoid data loss
             console.info('🧹 Step 2/7: Stopping ScreenRecorder (PRIORITY)')
-            await this.stopScreenRecorder()
+            await this.stopScreenRecorder(deadline)
 
             // 3. Capture final DOM state before cleanup
             if (this.context.playwrightPage) {
@@ -84,6 +106,29 @@ export class CleanupState extends BaseState {
                 (async () => {
                     console.info('🧹 Step 5/7: Stopping speakers observer')
                     await this.stopSpeakersObserver()
+                    if (this.context.chatObserver) {
+                        this.context.chatObserver.stopObserving()
+                        this.context.chatObserver = null
+                    }
+                    if (this.context.captionsObserver) {
+                        await this.context.captionsObserver.stopObserving()
+                        this.context.captionsObserver = null
+                    }
+                    await CaptionManager.getInstance().finalize()
+                    await ParticipantRoster.getInstance().finalize()
+                    await ScreenShareTracker.getInstance().finalize(
+                        this.context.startTime ?? 0,
+                    )
+                    await uploadTranscriptTask(
+                        DiarizationTracker.getInstance().finalize(stoppedAt),
+                    )
+                    await writeMeetingAnalytics(
+                        this.context.startTime ?? 0,
+                        stoppedAt,
+                    )
+                    await SlideExtractor.getInstance().finalize()
+                    // The recorder has written the transcript by now
+                    await writeSpeakerTranscript(this.context.startTime ?? 0)
                 })(),
 
                 // 6. Stop HTML cleaner (with 3s timeout)
@@ -184,11 +229,13 @@ export class CleanupState extends BaseState {
         }
     }
 
-    private async stopScreenRecorder(): Promise<void> {
+    private async stopScreenRecorder(deadline: number): Promise<void> {
         try {
             if (ScreenRecorderManager.getInstance().isCurrentlyRecording()) {
                 console.log('Stopping ScreenRecorder from cleanup state...')
-                await ScreenRecorderManager.getInstance().stopRecording()
+                await ScreenRecorderManager.getInstance().stopRecording(
+                    deadline,
+                )
                 console.log('ScreenRecorder stopped successfully')
             } else {
                 console.log('ScreenRecorder not recording, nothing to stop')
@@ -215,6 +262,42 @@ export class CleanupState extends BaseState {
             }
         }
     }
+    /**
+     * Scheduled window of the meeting next to the times actually recorded
+     */
+    private async writeRecordingWindow(stoppedAt: number): Promise<void> {
+        try {
+            const window = getRecordingWindow(GLOBAL.get())
+            if (!hasRecordingWindow(window)) {
+                return
+            }
+            // Nothing recorded when the bot left before the window opened
+            const startedAt = Math.max(
+                this.context.startTime ?? 0,
+                window.start_recording_at ?? 0,
+            )
+            const recorded = this.context.startTime > 0 && startedAt < stoppedAt
+            await fs.promises.writeFile(
+                PathManager.getInstance().getRecordingWindowPath(),
+                JSON.stringify(
+                    {
+                        ...recordingWindowToJson(window),
+                        recording_started_at: recorded
+                            ? new Date(startedAt).toISOString()
+                            : null,
+                        recording_stopped_at: recorded
+                            ? new Date(stoppedAt).toISOString()
+                            : null,
+                    },
+                    null,
+                    2,
+                ),
+            )
+        } catch (error) {
+            console.error('Cannot write recording window file:', error)
+        }
+    }
+
     private async cleanupBrowserResources(): Promise<void> {
         try {
             // 1. Stop branding
@@ -93,6 +93,12 @@ export class ErrorState extends BaseState {
                     case MeetingEndReason.TimeoutWaitingToStart:
                         await Events.waitingRoomTimeout()
                         break
+                    case MeetingEndReason.InCallNotRecordingTimeout:
+                        await Events.inCallNotRecordingTimeout()
+                        break
+                    case MeetingEndReason.RecordingPermissionDenied:
+                        await Events.recordingPermissionDeniedTimeout()
+                        break
                     case MeetingEndReason.InvalidMeetingUrl:
                         await Events.invalidMeetingUrl()
                         break
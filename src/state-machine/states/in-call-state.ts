@@ -1,33 +1,47 @@
+import { CaptionManager } from '../../caption-manager'
+import { ChatManager } from '../../chat-manager'
 import { Events } from '../../events'
+import { CaptionsObserver } from '../../meeting/captionsObserver'
+import { ChatObserver } from '../../meeting/chatObserver'
 import { HtmlCleaner } from '../../meeting/htmlCleaner'
 import { SpeakersObserver } from '../../meeting/speakersObserver'
 import { GLOBAL } from '../../singleton'
 import { SpeakerManager } from '../../speaker-manager'
-import { MEETING_CONSTANTS } from '../constants'
-import { MeetingStateType, StateExecuteResult } from '../types'
+import {
+    MeetingEndReason,
+    MeetingStateType,
+    StateExecuteResult,
+} from '../types'
 import { BaseState } from './base-state'
 
 export class InCallState extends BaseState {
+    private setupTimeoutId: NodeJS.Timeout | null = null
+
     async execute(): StateExecuteResult {
         try {
             // Start with global timeout for setup
             await Promise.race([this.setupRecording(), this.createTimeout()])
+            clearTimeout(this.setupTimeoutId)
             return this.transition(MeetingStateType.Recording)
         } catch (error) {
+            clearTimeout(this.setupTimeoutId)
             console.error('Setup recording failed:', error)
             return this.handleError(error as Error)
         }
     }
 
     private createTimeout(): Promise<never> {
+        const timeoutMs =
+            GLOBAL.get().automatic_leave.in_call_not_recording_timeout * 1000
         return new Promise((_, reject) => {
-            setTimeout(() => {
+            this.setupTimeoutId = setTimeout(() => {
+                GLOBAL.setError(MeetingEndReason.InCallNotRecordingTimeout)
                 reject(
                     new Error(
                         'Setup timeout: Recording sequence took too long',
                     ),
                 )
-            }, MEETING_CONSTANTS.SETUP_TIMEOUT)
+            }, timeoutMs)
         })
     }
 
@@ -92,8 +106,19 @@ export class InCallState extends BaseState {
             // Continue even if speakers observation fails
         }
 
-        // Notify that recording has started
-        Events.inCallRecording({ start_time: this.context.startTime })
+        try {
+            await this.startChatObservation()
+        } catch (error) {
+            console.error('Failed to start chat observation:', error)
+            // Continue even if chat observation fails
+        }
+
+        // Turning captions on goes through the provider menus, don't hold
+        // the in_call_not_recording_timeout on it
+        this.startCaptionsObservation().catch((error) => {
+            console.error('Failed to start captions observation:', error)
+            // Continue even if captions observation fails
+        })
     }
 
     private async startSpeakersObservation(): Promise<void> {
@@ -146,6 +171,58 @@ export class InCallState extends BaseState {
         }
     }
 
+    private async startChatObservation(): Promise<void> {
+        ChatManager.start()
+
+        if (!this.context.playwrightPage) {
+            console.error('Playwright page not available for chat observation')
+            return
+        }
+
+        const chatObserver = new ChatObserver(GLOBAL.get().meetingProvider)
+        await chatObserver.startObserving(
+            this.context.playwrightPage,
+            (sender: string, text: string) => {
+                ChatManager.getInstance()
+                    .handleChatMessage(sender, text)
+                    .catch((error) => {
+                        console.error('Error handling chat message:', error)
+                    })
+            },
+        )
+
+        // Store the observer in context for cleanup later
+        this.context.chatObserver = chatObserver
+    }
+
+    private async startCaptionsObservation(): Promise<void> {
+        CaptionManager.start()
+
+        if (!this.context.playwrightPage) {
+            console.error(
+                'Playwright page not available for captions observation',
+            )
+            return
+        }
+
+        const captionsObserver = new CaptionsObserver(
+            GLOBAL.get().meetingProvider,
+        )
+        // Store the observer before enabling captions, which may be slow
+        this.context.captionsObserver = captionsObserver
+        await captionsObserver.startObserving(
+            this.context.playwrightPage,
+            GLOBAL.get().translation_lang,
+            (blockId: number, speaker: string, text: string) => {
+                CaptionManager.getInstance().handleCaptionUpdate(
+                    blockId,
+                    speaker,
+                    text,
+                )
+            },
+        )
+    }
+
     private async startHtmlCleaning(): Promise<void> {
         if (!this.context.playwrightPage) {
             console.error('Playwright page not available for HTML cleanup')
@@ -1,8 +1,12 @@
 import { generateBranding, playBranding } from '../../branding'
 import { openBrowser } from '../../browser/browser'
+import { Events } from '../../events'
 import { GLOBAL } from '../../singleton'
 
 import { PathManager } from '../../utils/PathManager'
+import { getRecordingWindow } from '../../utils/recordingWindow'
+import { sleep } from '../../utils/sleep'
+import { MEETING_CONSTANTS } from '../constants'
 import {
     MeetingEndReason,
     MeetingStateType,
@@ -22,6 +26,12 @@ export class InitializationState extends BaseState {
             // Setup path manager first (important for logs)
             await this.setupPathManager()
 
+            // Scheduled meetings: stay idle until shortly before join_at
+            if (!(await this.waitForJoinTime())) {
+                // Stopped through the API, there is nothing to record
+                return this.transition(MeetingStateType.Cleanup)
+            }
+
             // Setup branding if needed - non-bloquant
             if (GLOBAL.get().custom_branding_bot_path) {
                 this.setupBranding().catch((error) => {
@@ -52,6 +62,35 @@ export class InitializationState extends BaseState {
         }
     }
 
+    /**
+     * @returns false when stopped through the API before the join time
+     */
+    private async waitForJoinTime(): Promise<boolean> {
+        const joinAt = getRecordingWindow(GLOBAL.get()).join_at
+        if (joinAt === null) {
+            return true
+        }
+        const wakeUpAt = joinAt - MEETING_CONSTANTS.JOIN_LEAD_TIME
+        if (Date.now() >= wakeUpAt) {
+            return true
+        }
+
+        console.info(
+            `Waiting until ${new Date(wakeUpAt).toISOString()} to join the meeting scheduled at ${new Date(joinAt).toISOString()}`,
+        )
+        while (Date.now() < wakeUpAt) {
+            // Stop requested through the API before joining
+            if (GLOBAL.getEndReason() === MeetingEndReason.ApiRequest) {
+                console.info('Stopped before the scheduled join time')
+                Events.apiRequestStop()
+                return false
+            }
+            await sleep(Math.min(1000, wakeUpAt - Date.now()))
+        }
+        console.info('Scheduled join time reached')
+        return true
+    }
+
     private async setupBranding(): Promise<void> {
         this.context.brandingProcess = generateBranding(
             GLOBAL.get().bot_name,
@@ -1,5 +1,6 @@
 import { Events } from '../../events'
 
+import { ScreenRecorderManager } from '../../recording/ScreenRecorder'
 import { GLOBAL } from '../../singleton'
 import { MEETING_CONSTANTS } from '../constants'
 import { MeetingStateType, StateExecuteResult } from '../types'
@@ -68,7 +69,8 @@ export class PausedState extends BaseState {
 
     private async pauseRecording(): Promise<void> {
         const pausePromise = async () => {
-            // TODO: PAUSE SCREEN RECORDER
+            // Screen recorder paused (segment cut from the final output)
+            ScreenRecorderManager.getInstance().pauseRecording()
 
             // Streaming service paused
             if (this.context.streamingService) {
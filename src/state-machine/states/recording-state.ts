@@ -1,29 +1,36 @@
 import { Events } from '../../events'
+import { ParticipantRoster } from '../../participant-roster'
 import { Streaming } from '../../streaming'
-import { MEETING_CONSTANTS } from '../constants'
 
 import {
     MeetingEndReason,
     MeetingStateType,
     StateExecuteResult,
 } from '../types'
+import { MEETING_CONSTANTS } from '../constants'
+import { EndConditionPolicy } from '../end-conditions/policy'
+import { EndDecision } from '../end-conditions/types'
 import { BaseState } from './base-state'
 
 import {
     AudioWarningEvent,
     ScreenRecorderManager,
 } from '../../recording/ScreenRecorder'
+import { SlideExtractor } from '../../recording/SlideExtractor'
 import { GLOBAL } from '../../singleton'
+import { getRecordingWindow } from '../../utils/recordingWindow'
 import { sleep } from '../../utils/sleep'
 
-// Sound level threshold for considering activity (0-100)
-const SOUND_LEVEL_ACTIVITY_THRESHOLD = 5
-
 export class RecordingState extends BaseState {
     private isProcessing: boolean = true
     private readonly CHECK_INTERVAL = 250
-    private noAttendeesConfirmationStartTime: number = 0
     private lastSoundActivity: number = Date.now()
+    private notCapturingSince: number = 0
+    private endDecision: EndDecision | null = null
+    private readonly startRecordingAt: number | null = getRecordingWindow(
+        GLOBAL.get(),
+    ).start_recording_at
+    private waitingForWindow: boolean = false
 
     async execute(): StateExecuteResult {
         try {
@@ -32,10 +39,33 @@ export class RecordingState extends BaseState {
             // Initialize recording
             await this.initializeRecording()
 
-            // Set a global timeout for the recording state
-            const startTime = Date.now()
-            this.context.startTime = startTime // Assign to context so getStartTime() works
-            ScreenRecorderManager.getInstance().setMeetingStartTime(startTime)
+            // Set a global timeout for the recording state.
+            // Keep the original start time when coming back from a pause,
+            // timeline offsets and paused segments are relative to it
+            if (!this.context.startTime) {
+                this.context.startTime = Date.now() // Assign to context so getStartTime() works
+                ScreenRecorderManager.getInstance().setMeetingStartTime(
+                    this.context.startTime,
+                )
+            }
+            const startTime = this.context.startTime
+            // Gated before anything is notified or recorded
+            this.gateToRecordingWindow(Date.now())
+            // Scheduled recordings notify it once their window opens
+            if (!this.waitingForWindow) {
+                Events.inCallRecording({ start_time: startTime })
+            }
+            // Built once for the meeting so the condition timers survive
+            // the pauses, a new RecordingState is created on each resume
+            this.context.endConditions ??= EndConditionPolicy.fromParams(
+                GLOBAL.get(),
+            )
+            const recordingTimeoutMs =
+                GLOBAL.get().automatic_leave.in_call_recording_timeout * 1000
+            SlideExtractor.getInstance().start(startTime)
+            console.info(
+                `End conditions: ${this.context.endConditions.getNames().join(', ')}`,
+            )
 
             // Initialize noSpeakerDetectedTime if not already set (for meetings with no participants)
             if (!this.context.noSpeakerDetectedTime) {
@@ -48,11 +78,17 @@ export class RecordingState extends BaseState {
 
             // Main loop
             while (this.isProcessing) {
-                // Check global timeout
-                if (
-                    Date.now() - startTime >
-                    MEETING_CONSTANTS.RECORDING_TIMEOUT
-                ) {
+                // Check global timeout (in_call_recording_timeout), on the
+                // recorded time: paused segments are cut out of the recording
+                const now = Date.now()
+                const recordedMs =
+                    now -
+                    startTime -
+                    ScreenRecorderManager.getInstance().getPausedDurationBetween(
+                        startTime,
+                        now,
+                    )
+                if (recordedMs > recordingTimeoutMs) {
                     console.warn(
                         'Global recording state timeout reached, forcing end',
                     )
@@ -63,6 +99,8 @@ export class RecordingState extends BaseState {
                     break
                 }
 
+                this.gateToRecordingWindow(Date.now())
+
                 // Check if we should stop
                 const { shouldEnd, reason } = await this.checkEndConditions()
 
@@ -171,6 +209,14 @@ export class RecordingState extends BaseState {
                 return { shouldEnd: true, reason: GLOBAL.getEndReason() }
             }
 
+            if (this.checkRecordingPermissionDenied(now)) {
+                GLOBAL.setError(MeetingEndReason.RecordingPermissionDenied)
+                return {
+                    shouldEnd: true,
+                    reason: MeetingEndReason.RecordingPermissionDenied,
+                }
+            }
+
             // Check if bot was removed (with timeout protection)
             const botRemovedResult = await Promise.race([
                 this.checkBotRemoved(),
@@ -186,11 +232,15 @@ export class RecordingState extends BaseState {
                 return this.getBotRemovedReason()
             }
 
-            // Check for sound activity first - if detected, reset all silence timers
+            // Check for sound activity first - if detected, reset the silence timer
+            let soundActive = false
             if (Streaming.instance) {
                 const currentSoundLevel =
                     Streaming.instance.getCurrentSoundLevel()
-                if (currentSoundLevel > SOUND_LEVEL_ACTIVITY_THRESHOLD) {
+                if (
+                    currentSoundLevel >
+                    MEETING_CONSTANTS.SOUND_LEVEL_ACTIVITY_THRESHOLD
+                ) {
                     // Only log once per 2 seconds to avoid spam
                     if (now - this.lastSoundActivity >= 2000) {
                         console.log(
@@ -198,17 +248,38 @@ export class RecordingState extends BaseState {
                         )
                     }
                     this.lastSoundActivity = now
-                    return { shouldEnd: false }
+                    soundActive = true
                 }
             }
 
-            // Check participants and audio activity
-            if (await this.checkNoAttendees(now)) {
-                return { shouldEnd: true, reason: MeetingEndReason.NoAttendees }
+            // Nobody is expected before the scheduled window, its timers
+            // start with it
+            if (this.waitingForWindow) {
+                return { shouldEnd: false }
             }
 
-            if (await this.checkNoSpeaker(now)) {
-                return { shouldEnd: true, reason: MeetingEndReason.NoSpeaker }
+            // Configured auto-leave policy, first condition met wins
+            const conditionsStart = Math.max(
+                this.context.startTime || 0,
+                this.startRecordingAt ?? 0,
+            )
+            const decision = this.context.endConditions.evaluate({
+                now,
+                startTime: conditionsStart,
+                pausedMs:
+                    ScreenRecorderManager.getInstance().getPausedDurationBetween(
+                        conditionsStart,
+                        now,
+                    ),
+                attendeesCount: this.context.attendeesCount || 0,
+                firstUserJoined: this.context.firstUserJoined || false,
+                participants: ParticipantRoster.getInstance().getPresentNames(),
+                soundActive,
+                lastSoundActivity: this.lastSoundActivity,
+            })
+            if (decision) {
+                this.endDecision = decision
+                return { shouldEnd: true, reason: decision.reason }
             }
 
             return { shouldEnd: false }
@@ -269,6 +340,7 @@ export class RecordingState extends BaseState {
             // These critical steps must execute regardless of previous steps
             console.info('Triggering call ended event')
             await Events.callEnded()
+            await this.notifyAutomaticLeave(reason)
 
             console.info('Setting isProcessing to false to end recording loop')
         } catch (error) {
@@ -280,6 +352,70 @@ export class RecordingState extends BaseState {
         }
     }
 
+    /**
+     * Keep the recorder paused until start_recording_at, the gated segment is
+     * cut from the final recording like a manual pause. `in_call_recording`
+     * is sent when the window opens.
+     */
+    private gateToRecordingWindow(now: number): void {
+        if (this.startRecordingAt === null) {
+            return
+        }
+        const recorder = ScreenRecorderManager.getInstance()
+        if (now < this.startRecordingAt) {
+            if (!this.waitingForWindow) {
+                this.waitingForWindow = true
+                console.info(
+                    `Recording gated until start_recording_at ${new Date(this.startRecordingAt).toISOString()}`,
+                )
+            }
+            // The recorder started in the waiting room may not be running yet
+            if (recorder.isCurrentlyRecording() && !recorder.isPaused()) {
+                recorder.pauseRecording()
+            }
+        } else if (this.waitingForWindow) {
+            recorder.resumeRecording()
+            this.waitingForWindow = false
+            this.lastSoundActivity = now
+            console.info('Recording window opened')
+            Events.inCallRecording({ start_time: now })
+        }
+    }
+
+    /**
+     * Tell which automatic_leave timeout or end condition made the bot leave, if any
+     */
+    private async notifyAutomaticLeave(
+        reason: MeetingEndReason,
+    ): Promise<void> {
+        switch (reason) {
+            case MeetingEndReason.NoAttendees:
+                await Events.nooneJoinedTimeout()
+                break
+            case MeetingEndReason.EveryoneLeft:
+                await Events.everyoneLeftTimeout()
+                break
+            case MeetingEndReason.NoSpeaker:
+                await Events.silenceTimeout()
+                break
+            case MeetingEndReason.RecordingTimeout:
+                await Events.inCallRecordingTimeout()
+                break
+            case MeetingEndReason.RecordingPermissionDenied:
+                await Events.recordingPermissionDeniedTimeout()
+                break
+            case MeetingEndReason.OnlyBotsRemaining:
+                await Events.onlyBotsRemaining()
+                break
+            case MeetingEndReason.ParticipantLeft:
+                await Events.namedParticipantLeft(this.endDecision?.participant)
+                break
+            case MeetingEndReason.ScheduledEnd:
+                await Events.scheduledEndReached()
+                break
+        }
+    }
+
     private async checkBotRemoved(): Promise<boolean> {
         if (!this.context.playwrightPage) {
             console.error('Playwright page not available')
@@ -297,92 +433,26 @@ export class RecordingState extends BaseState {
     }
 
     /**
-     * Checks if the meeting should end due to lack of participants
+     * Checks if the recorder failed to start capturing the meeting
      * @param now Current timestamp
-     * @returns true if the meeting should end due to lack of participants
+     * @returns true if it has not been capturing for recording_permission_denied_timeout
      */
-    private checkNoAttendees(now: number): boolean {
-        const attendeesCount = this.context.attendeesCount || 0
-        const startTime = this.context.startTime || 0
-        const firstUserJoined = this.context.firstUserJoined || false
-
-        // If participants are present, reset timer and exit
-        if (attendeesCount > 0) {
-            this.noAttendeesConfirmationStartTime = 0
+    private checkRecordingPermissionDenied(now: number): boolean {
+        if (ScreenRecorderManager.getInstance().isCurrentlyRecording()) {
+            this.notCapturingSince = 0
             return false
         }
 
-        // Check if we should consider ending due to no attendees
-        const nooneJoinedTimeoutMs = GLOBAL.get().automatic_leave.noone_joined_timeout * 1000
-        const noAttendeesTimeout:boolean =
-            startTime + nooneJoinedTimeoutMs < now
-        const shouldConsiderEnding = noAttendeesTimeout || firstUserJoined
-
-        // If we shouldn't consider ending, reset timer and exit
-        if (!shouldConsiderEnding) {
-            this.noAttendeesConfirmationStartTime = 0
-            return false
-        }
-
-        // Start confirmation timer if not already started
-        if (this.noAttendeesConfirmationStartTime === 0) {
-            this.noAttendeesConfirmationStartTime = now
-            console.log(
-                `[checkNoAttendees] Starting empty meeting confirmation timer (timeout: ${GLOBAL.get().automatic_leave.noone_joined_timeout}s)`,
+        if (this.notCapturingSince === 0) {
+            this.notCapturingSince = now
+            console.warn(
+                '[checkRecordingPermissionDenied] Recorder is not capturing the meeting',
             )
             return false
         }
 
-        // Check if we've had no attendees for long enough
-        const noAttendeesDuration = now - this.noAttendeesConfirmationStartTime
-        const hasEnoughConfirmation: boolean =
-            noAttendeesDuration >=
-            MEETING_CONSTANTS.EMPTY_MEETING_CONFIRMATION_MS
-
-        // Log progress if we're still waiting
-        if (
-            !hasEnoughConfirmation &&
-            noAttendeesDuration % 5000 < this.CHECK_INTERVAL
-        ) {
-            console.log(
-                `[checkNoAttendees] Waiting for empty meeting confirmation: ${Math.floor(noAttendeesDuration / 1000)}s / ${MEETING_CONSTANTS.EMPTY_MEETING_CONFIRMATION_MS / 1000}s`,
-            )
-        }
-
-        if (hasEnoughConfirmation) {
-            console.log(
-                `[checkNoAttendees] Empty meeting confirmation reached (${Math.floor(noAttendeesDuration / 1000)}s), ending meeting due to no attendees`,
-            )
-            // End meeting due to no attendees - don't wait for sound activity
-            return this.checkNoSpeaker(now)
-        }
-
-        return false
-    }
-
-    /**
-     * Checks if the meeting should end due to absence of sound
-     * @param now Current timestamp
-     * @returns true if the meeting should end due to absence of sound
-     */
-    private checkNoSpeaker(now: number): boolean {
-
-        // Check if the silence period has exceeded the timeout
-        const silenceDurationSeconds = Math.floor((now - this.lastSoundActivity) / 1000)
-        const shouldEnd = silenceDurationSeconds >= MEETING_CONSTANTS.SILENCE_TIMEOUT / 1000
-        if (shouldEnd) {
-            console.log(
-                `[checkNoSpeaker] No sound activity detected for ${silenceDurationSeconds} seconds, ending meeting`,
-            )
-        } else {
-            // Log progress periodically
-            if (silenceDurationSeconds % 30 === 0) {
-                // Log every 30 seconds
-                console.log(
-                    `[checkNoSpeaker] No speaker detected for ${silenceDurationSeconds}s / ${MEETING_CONSTANTS.SILENCE_TIMEOUT / 1000}s`,
-                )
-            }
-        }
-        return shouldEnd
+        const timeoutSeconds =
+            GLOBAL.get().automatic_leave.recording_permission_denied_timeout
+        return now - this.notCapturingSince >= timeoutSeconds * 1000
     }
 }
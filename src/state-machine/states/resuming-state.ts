@@ -1,4 +1,5 @@
 import { Events } from '../../events'
+import { ScreenRecorderManager } from '../../recording/ScreenRecorder'
 import { SpeakerManager } from '../../speaker-manager'
 
 import { MeetingStateType, StateExecuteResult } from '../types'
@@ -42,7 +43,8 @@ export class ResumingState extends BaseState {
 
     private async resumeRecording(): Promise<void> {
         const resumePromise = async () => {
-            // TODO: RESUME SCREEN RECORDER
+            // Screen recorder resumed
+            ScreenRecorderManager.getInstance().resumeRecording()
 
             // Reprendre le streaming
             if (this.context.streamingService) {
@@ -23,6 +23,10 @@ export enum MeetingEndReason {
     NoAttendees = 'noAttendees',
     NoSpeaker = 'noSpeaker',
     RecordingTimeout = 'recordingTimeout',
+    EveryoneLeft = 'everyoneLeft',
+    OnlyBotsRemaining = 'onlyBotsRemaining',
+    ParticipantLeft = 'participantLeft',
+    ScheduledEnd = 'scheduledEnd',
     ApiRequest = 'apiRequest',
 
     // Error end reasons
@@ -30,7 +34,10 @@ export enum MeetingEndReason {
     BotNotAccepted = 'botNotAccepted',
     CannotJoinMeeting = 'cannotJoinMeeting',
     TimeoutWaitingToStart = 'timeoutWaitingToStart',
+    InCallNotRecordingTimeout = 'inCallNotRecordingTimeout',
+    RecordingPermissionDenied = 'recordingPermissionDenied',
     InvalidMeetingUrl = 'invalidMeetingUrl',
+    InvalidParams = 'invalidParams',
     StreamingSetupFailed = 'streamingSetupFailed',
     LoginRequired = 'loginRequired',
     Internal = 'internalError',
@@ -47,6 +54,14 @@ export function getErrorMessageFromCode(errorCode: MeetingEndReason): string {
             return 'No speakers detected during recording.'
         case MeetingEndReason.RecordingTimeout:
             return 'Recording timeout reached.'
+        case MeetingEndReason.EveryoneLeft:
+            return 'All participants left the meeting.'
+        case MeetingEndReason.OnlyBotsRemaining:
+            return 'Only other bots remained in the meeting.'
+        case MeetingEndReason.ParticipantLeft:
+            return 'A required participant left the meeting.'
+        case MeetingEndReason.ScheduledEnd:
+            return 'Scheduled end time reached.'
         case MeetingEndReason.ApiRequest:
             return 'Recording stopped via API request.'
         case MeetingEndReason.BotRemovedTooEarly:
@@ -57,8 +72,14 @@ export function getErrorMessageFromCode(errorCode: MeetingEndReason): string {
             return 'Cannot join meeting - meeting is not reachable.'
         case MeetingEndReason.TimeoutWaitingToStart:
             return 'Timeout waiting to start recording.'
+        case MeetingEndReason.InCallNotRecordingTimeout:
+            return 'Timeout in the call before the recording started.'
+        case MeetingEndReason.RecordingPermissionDenied:
+            return 'The recorder could not capture the meeting.'
         case MeetingEndReason.InvalidMeetingUrl:
             return 'Invalid meeting URL provided.'
+        case MeetingEndReason.InvalidParams:
+            return 'Invalid meeting parameters provided.'
         case MeetingEndReason.StreamingSetupFailed:
             return 'Failed to set up streaming audio.'
         case MeetingEndReason.LoginRequired:
@@ -107,9 +128,18 @@ export interface MeetingContext {
     // Streaming
     streamingService?: Streaming
 
+    // End conditions, kept across pause and resume
+    endConditions?: import('./end-conditions/policy').EndConditionPolicy
+
     // Speakers observation
     speakersObserver?: import('../meeting/speakersObserver').SpeakersObserver
 
+    // Chat observation
+    chatObserver?: import('../meeting/chatObserver').ChatObserver
+
+    // Live captions observation
+    captionsObserver?: import('../meeting/captionsObserver').CaptionsObserver
+
     // HTML cleanup
     htmlCleaner?: import('../meeting/htmlCleaner').HtmlCleaner
 
@@ -4,6 +4,7 @@ import { Readable } from 'stream'
 import { RawData, Server, WebSocket } from 'ws'
 
 import { SoundContext } from './media_context'
+import { toSoundLevel } from './speaker-fusion'
 import { SpeakerData } from './types'
 import { PathManager } from './utils/PathManager'
 
@@ -358,10 +359,7 @@ export class Streaming {
         const rms = Math.sqrt(sum / sampledLength)
 
         // Calculate normalized sound level
-        let normalizedLevel = 0
-        if (rms > 0.005) {
-            normalizedLevel = Math.min(100, rms * 300)
-        }
+        const normalizedLevel = toSoundLevel(rms)
 
         // Update current level for real-time monitoring
         this.currentSoundLevel = normalizedLevel
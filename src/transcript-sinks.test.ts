@@ -0,0 +1,141 @@
+import * as fs from 'fs'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import * as os from 'os'
+import * as path from 'path'
+
+import {
+    createTranscriptSinks,
+    FileTranscriptSink,
+    WebhookTranscriptSink,
+} from './transcript-sinks'
+
+const OPTIONS = {
+    serverless: false,
+    diarizationPath: '/tmp/diarization.json',
+    webhookUrl: 'https://example.com/hook',
+    botId: 'bot-1',
+    apiKey: 'api-key',
+}
+
+describe('Transcript sinks', () => {
+    it('creates the configured sinks', () => {
+        const names = (sinks: { name: string }[]) =>
+            sinks.map((sink) => sink.name)
+
+        expect(
+            names(createTranscriptSinks(['api', 'file', 'webhook'], OPTIONS)),
+        ).toEqual(['api', 'file', 'webhook'])
+        // Self-hosted: no backend, no webhook URL
+        expect(
+            names(
+                createTranscriptSinks(['api', 'file', 'webhook', 'nope'], {
+                    ...OPTIONS,
+                    serverless: true,
+                    webhookUrl: null,
+                }),
+            ),
+        ).toEqual(['file'])
+    })
+
+    it('writes the segments so far to the diarization file', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sinks-'))
+        const filePath = path.join(dir, 'diarization.json')
+        const sink = new FileTranscriptSink(filePath)
+        const read = () => JSON.parse(fs.readFileSync(filePath, 'utf8'))
+
+        try {
+            await sink.write({
+                type: 'segment_started',
+                speaker: 'Alice',
+                offset: 1,
+                concurrentSpeakers: [],
+            })
+            await sink.write({
+                type: 'segment_started',
+                speaker: 'Bob',
+                offset: 2,
+                concurrentSpeakers: ['Alice'],
+            })
+            expect(read()).toEqual([
+                {
+                    speaker: 'Alice',
+                    start_offset: 1,
+                    end_offset: null,
+                    concurrent_speakers: [],
+                },
+                {
+                    speaker: 'Bob',
+                    start_offset: 2,
+                    end_offset: null,
+                    concurrent_speakers: ['Alice'],
+                },
+            ])
+
+            await sink.write({
+                type: 'segment_ended',
+                speaker: 'Alice',
+                offset: 5,
+                concurrentSpeakers: ['Bob'],
+            })
+            expect(read()[0]).toEqual({
+                speaker: 'Alice',
+                start_offset: 1,
+                end_offset: 5,
+                concurrent_speakers: ['Bob'],
+            })
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true })
+        }
+    })
+
+    it('posts each change to the webhook', async () => {
+        const received: { headers: http.IncomingHttpHeaders; body: any }[] = []
+        const server = http.createServer((req, res) => {
+            let body = ''
+            req.on('data', (chunk) => (body += chunk))
+            req.on('end', () => {
+                received.push({ headers: req.headers, body: JSON.parse(body) })
+                res.end()
+            })
+        })
+        await new Promise<void>((resolve) =>
+            server.listen(0, '127.0.0.1', resolve),
+        )
+        const { port } = server.address() as AddressInfo
+
+        try {
+            const sink = new WebhookTranscriptSink(
+                `http://127.0.0.1:${port}/hook`,
+                'bot-1',
+                'api-key',
+            )
+            await sink.write({
+                type: 'segment_started',
+                speaker: 'Bob',
+                offset: 2,
+                concurrentSpeakers: ['Alice'],
+            })
+
+            expect(received).toHaveLength(1)
+            expect(received[0].headers['x-meeting-baas-api-key']).toBe(
+                'api-key',
+            )
+            expect(received[0].body).toEqual({
+                event: 'bot.diarization',
+                data: {
+                    bot_id: 'bot-1',
+                    segment: {
+                        type: 'segment_started',
+                        speaker: 'Bob',
+                        offset: 2,
+                        concurrent_speakers: ['Alice'],
+                        created_at: expect.any(String),
+                    },
+                },
+            })
+        } finally {
+            await new Promise((resolve) => server.close(resolve))
+        }
+    })
+})
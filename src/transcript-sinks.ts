@@ -0,0 +1,193 @@
+import * as fs from 'fs'
+
+import { Api } from './api/methods'
+import { ApiTypes } from './api/types'
+import { createHttpClient } from './transcription/http'
+
+// A diarization change placed on the recording
+export type SegmentChange = {
+    type: 'segment_started' | 'segment_ended'
+    speaker: string
+    offset: number // seconds on the final recording
+    concurrentSpeakers: string[]
+}
+
+/**
+ * Destination of the diarization segments, fed one change at a time in
+ * order by the upload queue
+ */
+export interface TranscriptSink {
+    readonly name: string
+    write(change: SegmentChange): Promise<void>
+}
+
+/**
+ * MeetingBaaS backend, one transcript per segment patched with its end
+ */
+export class ApiTranscriptSink implements TranscriptSink {
+    public readonly name = 'api'
+    // Speaker name => their open segment on the server
+    private openTranscripts: Map<string, ApiTypes.QueryableTranscript> =
+        new Map()
+
+    public async write(change: SegmentChange): Promise<void> {
+        if (change.type === 'segment_ended') {
+            const transcript = this.openTranscripts.get(change.speaker)
+            if (!transcript) {
+                return
+            }
+            this.openTranscripts.delete(change.speaker)
+            await Api.instance.patchTranscript({
+                id: transcript.id,
+                end_time: change.offset,
+            } as ApiTypes.ChangeableTranscript)
+        } else {
+            const transcript = await Api.instance.postTranscript({
+                speaker: change.speaker,
+                start_time: change.offset,
+                ...(change.concurrentSpeakers.length > 0 && {
+                    concurrent_speakers: change.concurrentSpeakers,
+                }),
+            } as ApiTypes.PostableTranscript)
+            this.openTranscripts.set(change.speaker, transcript)
+        }
+    }
+}
+
+type FileSegment = {
+    speaker: string
+    start_offset: number
+    end_offset: number | null
+    concurrent_speakers: string[]
+}
+
+/**
+ * Local `diarization.json`, rewritten on every change so a crashed bot
+ * still leaves the timeline so far
+ */
+export class FileTranscriptSink implements TranscriptSink {
+    public readonly name = 'file'
+    private segments: FileSegment[] = []
+    // Speaker name => index of their open segment
+    private openSegments: Map<string, number> = new Map()
+
+    constructor(private readonly filePath: string) {}
+
+    public async write(change: SegmentChange): Promise<void> {
+        if (change.type === 'segment_ended') {
+            const index = this.openSegments.get(change.speaker)
+            if (index === undefined) {
+                return
+            }
+            this.openSegments.delete(change.speaker)
+            this.segments[index].end_offset = change.offset
+            this.segments[index].concurrent_speakers = change.concurrentSpeakers
+        } else {
+            this.openSegments.set(change.speaker, this.segments.length)
+            this.segments.push({
+                speaker: change.speaker,
+                start_offset: change.offset,
+                end_offset: null,
+                concurrent_speakers: change.concurrentSpeakers,
+            })
+        }
+        await fs.promises.writeFile(
+            this.filePath,
+            JSON.stringify(this.segments, null, 2),
+        )
+    }
+}
+
+/**
+ * Any HTTP endpoint, one `bot.diarization` event per change
+ */
+export class WebhookTranscriptSink implements TranscriptSink {
+    public readonly name = 'webhook'
+    private readonly http = createHttpClient(5000)
+
+    constructor(
+        private readonly url: string,
+        private readonly botId: string,
+        private readonly apiKey: string | null,
+    ) {}
+
+    public async write(change: SegmentChange): Promise<void> {
+        await this.http.post(
+            this.url,
+            {
+                event: 'bot.diarization',
+                data: {
+                    bot_id: this.botId,
+                    segment: {
+                        type: change.type,
+                        speaker: change.speaker,
+                        offset: change.offset,
+                        concurrent_speakers: change.concurrentSpeakers,
+                        created_at: new Date().toISOString(),
+                    },
+                },
+            },
+            {
+                headers: {
+                    'User-Agent': 'meetingbaas/1.0',
+                    ...(this.apiKey && {
+                        'x-meeting-baas-api-key': this.apiKey,
+                    }),
+                },
+            },
+        )
+    }
+}
+
+export type TranscriptSinkOptions = {
+    serverless: boolean
+    diarizationPath: string
+    webhookUrl: string | null
+    botId: string
+    apiKey: string | null
+}
+
+/**
+ * Sinks listed in the `transcript_sinks` config, the ones missing what they
+ * need are skipped with a warning
+ */
+export function createTranscriptSinks(
+    names: string[],
+    options: TranscriptSinkOptions,
+): TranscriptSink[] {
+    const sinks: TranscriptSink[] = []
+    for (const name of new Set(names)) {
+        switch (name) {
+            case 'api':
+                if (options.serverless) {
+                    console.log(
+                        'Skipping api transcript sink - serverless mode',
+                    )
+                } else {
+                    sinks.push(new ApiTranscriptSink())
+                }
+                break
+            case 'file':
+                sinks.push(new FileTranscriptSink(options.diarizationPath))
+                break
+            case 'webhook':
+                if (options.webhookUrl) {
+                    sinks.push(
+                        new WebhookTranscriptSink(
+                            options.webhookUrl,
+                            options.botId,
+                            options.apiKey,
+                        ),
+                    )
+                } else {
+                    console.warn(
+                        'Skipping webhook transcript sink - no transcript_webhook_url nor bots_webhook_url',
+                    )
+                }
+                break
+            default:
+                console.warn(`Unknown transcript sink ${name}, ignored`)
+        }
+    }
+    return sinks
+}
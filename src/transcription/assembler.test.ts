@@ -0,0 +1,107 @@
+import {
+    assembleSpeakerTranscript,
+    attributeWords,
+    toCues,
+    toPlainText,
+} from './assembler'
+import { TranscriptWord } from './types'
+
+function word(text: string, start: number, end: number): TranscriptWord {
+    return { text, start, end, confidence: null }
+}
+
+describe('Speaker transcript assembler', () => {
+    describe('attributeWords', () => {
+        const intervals = [
+            { speaker: 'Alice', start: 0, end: 3 },
+            { speaker: 'Bob', start: 2, end: 6 },
+            { speaker: 'Carol', start: 10, end: 12 },
+        ]
+
+        it('picks the speaker overlapping each word the most', () => {
+            const words = attributeWords(
+                [
+                    word('hello', 0.5, 1),
+                    word('there', 2.2, 2.9),
+                    word('yes', 4, 4.5),
+                ],
+                intervals,
+            )
+            expect(words.map((w) => w.speaker)).toEqual([
+                'Alice',
+                // Alice and Bob overlap evenly, Bob started last
+                'Bob',
+                'Bob',
+            ])
+        })
+
+        it('attributes words between turns within the tolerance', () => {
+            const words = attributeWords(
+                [
+                    word('late', 7, 7.4),
+                    word('early', 9, 9.5),
+                    word('lost', 30, 31),
+                ],
+                intervals,
+            )
+            expect(words.map((w) => w.speaker)).toEqual([
+                'Bob',
+                'Carol',
+                // Out of reach, continues the previous speaker
+                'Carol',
+            ])
+        })
+
+        it('leaves words unattributed without any speaker data', () => {
+            expect(attributeWords([word('hi', 0, 1)], [])[0].speaker).toBeNull()
+        })
+    })
+
+    it('builds utterances and renders them as subtitles and text', () => {
+        const transcript = assembleSpeakerTranscript(
+            {
+                provider: 'Gladia',
+                language: 'en',
+                words: [
+                    word('there', 0.6, 1),
+                    word('Hi', 0.1, 0.5),
+                    word('Hello', 3.1, 3.5),
+                    word('Alice', 3.6, 4),
+                    word('again', 9, 9.5),
+                ],
+            },
+            [
+                { speaker: 'Alice', start: 0, end: 2 },
+                { speaker: 'Bob', start: 3, end: 10 },
+            ],
+        )
+
+        expect(transcript.speakers).toEqual(['Alice', 'Bob'])
+        expect(
+            transcript.utterances.map(({ speaker, start, end, text }) => ({
+                speaker,
+                start,
+                end,
+                text,
+            })),
+        ).toEqual([
+            { speaker: 'Alice', start: 0.1, end: 1, text: 'Hi there' },
+            { speaker: 'Bob', start: 3.1, end: 4, text: 'Hello Alice' },
+            // Same speaker after a long pause
+            { speaker: 'Bob', start: 9, end: 9.5, text: 'again' },
+        ])
+
+        expect(toCues(transcript.utterances, 0.5)).toEqual([
+            { start: 0.1, end: 0.5, speaker: 'Alice', text: 'Hi' },
+            { start: 0.6, end: 1, speaker: 'Alice', text: 'there' },
+            { start: 3.1, end: 3.5, speaker: 'Bob', text: 'Hello' },
+            { start: 3.6, end: 4, speaker: 'Bob', text: 'Alice' },
+            { start: 9, end: 9.5, speaker: 'Bob', text: 'again' },
+        ])
+        expect(toPlainText(transcript.utterances)).toBe(
+            '[00:00:00] Alice: Hi there\n' +
+                '[00:00:03] Bob: Hello Alice\n' +
+                '[00:00:09] Bob: again\n',
+        )
+    })
+})
@@ -0,0 +1,244 @@
+import * as fs from 'fs'
+
+import { PathManager } from '../utils/PathManager'
+import { parseSpeakerLog, SpeakerInterval } from '../utils/speakerLog'
+import {
+    formatSubtitleTimestamp,
+    SubtitleCue,
+    toSrt,
+    toWebVtt,
+} from '../utils/subtitles'
+import { recordingOffset } from '../utils/timeline'
+import { Transcript, TranscriptWord } from './types'
+
+// The observers already date the speaker changes SPEAKER_LATENCY earlier
+// than the DOM shows them, this absorbs the remaining indicator jitter
+const ATTRIBUTION_TOLERANCE = 1.5 // seconds
+// Silence after which the same speaker starts a new utterance
+const UTTERANCE_PAUSE = 2 // seconds
+const MAX_CUE_DURATION = 7 // seconds
+const UNKNOWN_SPEAKER = 'Unknown speaker'
+
+export type AttributedWord = TranscriptWord & { speaker: string | null }
+
+export type Utterance = {
+    speaker: string | null
+    start: number
+    end: number
+    text: string
+    words: TranscriptWord[]
+}
+
+export type SpeakerTranscript = {
+    provider: string
+    language: string | null
+    speakers: string[]
+    utterances: Utterance[]
+}
+
+function overlap(word: TranscriptWord, interval: SpeakerInterval): number {
+    return (
+        Math.min(word.end, interval.end) - Math.max(word.start, interval.start)
+    )
+}
+
+function distance(word: TranscriptWord, interval: SpeakerInterval): number {
+    return Math.max(interval.start - word.end, word.start - interval.end, 0)
+}
+
+/**
+ * Speaker of each word: the turn it overlaps the most, the latest one to
+ * start when speakers overlap evenly. Words between turns go to the
+ * closest one within the tolerance, or else to the previous speaker
+ */
+export function attributeWords(
+    words: TranscriptWord[],
+    intervals: SpeakerInterval[],
+    tolerance: number = ATTRIBUTION_TOLERANCE,
+): AttributedWord[] {
+    let previous: string | null = null
+    return words.map((word) => {
+        let best: SpeakerInterval | null = null
+        let bestOverlap = 0
+        for (const interval of intervals) {
+            const value = overlap(word, interval)
+            if (
+                value > bestOverlap ||
+                (value > 0 &&
+                    value === bestOverlap &&
+                    interval.start > best.start)
+            ) {
+                best = interval
+                bestOverlap = value
+            }
+        }
+
+        if (!best) {
+            let bestDistance = tolerance
+            for (const interval of intervals) {
+                const value = distance(word, interval)
+                if (value <= bestDistance) {
+                    best = interval
+                    bestDistance = value
+                }
+            }
+        }
+
+        const speaker = best?.speaker ?? previous
+        previous = speaker
+        return { ...word, speaker }
+    })
+}
+
+/**
+ * Group consecutive words of a speaker, split on pauses
+ */
+export function groupUtterances(
+    words: AttributedWord[],
+    pause: number = UTTERANCE_PAUSE,
+): Utterance[] {
+    const utterances: Utterance[] = []
+    let current: Utterance | null = null
+    for (const { speaker, ...word } of words) {
+        if (
+            !current ||
+            current.speaker !== speaker ||
+            word.start - current.end > pause
+        ) {
+            current = {
+                speaker,
+                start: word.start,
+                end: word.end,
+                text: '',
+                words: [],
+            }
+            utterances.push(current)
+        }
+        current.words.push(word)
+        current.end = Math.max(current.end, word.end)
+        current.text = current.text ? `${current.text} ${word.text}` : word.text
+    }
+    return utterances
+}
+
+export function assembleSpeakerTranscript(
+    transcript: Transcript,
+    intervals: SpeakerInterval[],
+): SpeakerTranscript {
+    const words = [...transcript.words].sort((a, b) => a.start - b.start)
+    const utterances = groupUtterances(attributeWords(words, intervals))
+    return {
+        provider: transcript.provider,
+        language: transcript.language,
+        speakers: [
+            ...new Set(
+                utterances
+                    .map((utterance) => utterance.speaker)
+                    .filter((speaker) => speaker !== null),
+            ),
+        ],
+        utterances,
+    }
+}
+
+/**
+ * Subtitle cues of the utterances, long ones are split between words
+ */
+export function toCues(
+    utterances: Utterance[],
+    maxDuration: number = MAX_CUE_DURATION,
+): SubtitleCue[] {
+    const cues: SubtitleCue[] = []
+    for (const utterance of utterances) {
+        const speaker = utterance.speaker ?? UNKNOWN_SPEAKER
+        let cue: SubtitleCue | null = null
+        for (const word of utterance.words) {
+            if (!cue || word.end - cue.start > maxDuration) {
+                cue = {
+                    start: word.start,
+                    end: word.end,
+                    speaker,
+                    text: word.text,
+                }
+                cues.push(cue)
+            } else {
+                cue.end = Math.max(cue.end, word.end)
+                cue.text = `${cue.text} ${word.text}`
+            }
+        }
+    }
+    return cues
+}
+
+export function toPlainText(utterances: Utterance[]): string {
+    return utterances
+        .map(
+            (utterance) =>
+                `[${formatSubtitleTimestamp(utterance.start).slice(0, 8)}] ${utterance.speaker ?? UNKNOWN_SPEAKER}: ${utterance.text}`,
+        )
+        .join('\n')
+        .concat('\n')
+}
+
+/**
+ * Join the speech-to-text transcript with the speaker timeline and write
+ * the speaker-labeled transcript in JSON, SRT, WebVTT and plain text
+ */
+export async function writeSpeakerTranscript(
+    meetingStartTime: number,
+): Promise<void> {
+    const pathManager = PathManager.getInstance()
+    const transcriptPath = pathManager.getTranscriptPath()
+    if (!fs.existsSync(transcriptPath) || meetingStartTime <= 0) {
+        return
+    }
+
+    try {
+        const transcript: Transcript = JSON.parse(
+            await fs.promises.readFile(transcriptPath, 'utf8'),
+        )
+        const speakerLog = await fs.promises
+            .readFile(pathManager.getSpeakerLogPath(), 'utf8')
+            .catch(() => '')
+
+        // Same timeline as the words: seconds on the recording, paused
+        // segments cut out
+        const intervals = parseSpeakerLog(speakerLog).map((interval) => ({
+            speaker: interval.speaker,
+            start: Math.max(
+                0,
+                recordingOffset(interval.start, meetingStartTime),
+            ),
+            end: Math.max(0, recordingOffset(interval.end, meetingStartTime)),
+        }))
+
+        const speakerTranscript = assembleSpeakerTranscript(
+            transcript,
+            intervals,
+        )
+        const cues = toCues(speakerTranscript.utterances)
+        await Promise.all([
+            fs.promises.writeFile(
+                pathManager.getSpeakerTranscriptPath('json'),
+                JSON.stringify(speakerTranscript, null, 2),
+            ),
+            fs.promises.writeFile(
+                pathManager.getSpeakerTranscriptPath('srt'),
+                toSrt(cues),
+            ),
+            fs.promises.writeFile(
+                pathManager.getSpeakerTranscriptPath('vtt'),
+                toWebVtt(cues),
+            ),
+            fs.promises.writeFile(
+                pathManager.getSpeakerTranscriptPath('txt'),
+                toPlainText(speakerTranscript.utterances),
+            ),
+        ])
+        console.log(
+            `[Assembler] ${speakerTranscript.utterances.length} utterance(s) from ${speakerTranscript.speakers.length} speaker(s)`,
+        )
+    } catch (error) {
+        console.error('Cannot write speaker transcript:', error)
+    }
+}
@@ -0,0 +1,130 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { createHttpClient, multipartFile, pollUntil, timeLeft } from './http'
+import {
+    SpeechToTextProvider,
+    TranscriptionOptions,
+    TranscriptionResult,
+    TranscriptWord,
+} from './types'
+
+type GladiaWord = {
+    word: string
+    start: number
+    end: number
+    confidence?: number
+}
+
+type GladiaJob = {
+    status: 'queued' | 'processing' | 'done' | 'error'
+    error_code?: number | null
+    result?: {
+        transcription?: {
+            languages?: string[]
+            utterances?: { words?: GladiaWord[] }[]
+        }
+    }
+}
+
+export type GladiaOptions = {
+    baseUrl: string
+    pollIntervalMs?: number
+    timeoutMs?: number
+}
+
+/**
+ * Gladia pre-recorded API (v2): upload the audio, start a transcription job
+ * and poll it until done
+ */
+export class GladiaProvider implements SpeechToTextProvider {
+    public readonly name = 'Gladia'
+    // Gladia accepts files up to 135 minutes
+    public readonly maxChunkDuration = 3600
+    private readonly http = createHttpClient(60_000)
+    private readonly baseUrl: string
+    private readonly pollIntervalMs: number
+    private readonly timeoutMs: number
+
+    constructor(
+        private readonly apiKey: string,
+        options: GladiaOptions,
+    ) {
+        this.baseUrl = options.baseUrl.replace(/\/+$/, '')
+        this.pollIntervalMs = options.pollIntervalMs ?? 3000
+        this.timeoutMs = options.timeoutMs ?? 30 * 60 * 1000
+    }
+
+    public async transcribe(
+        audioPath: string,
+        options: TranscriptionOptions,
+    ): Promise<TranscriptionResult> {
+        const headers = { 'x-gladia-key': this.apiKey }
+
+        const upload = multipartFile(
+            'audio',
+            path.basename(audioPath),
+            await fs.promises.readFile(audioPath),
+            'audio/wav',
+        )
+        const { audio_url } = (
+            await this.http.post(`${this.baseUrl}/v2/upload`, upload.body, {
+                headers: { ...headers, 'Content-Type': upload.contentType },
+            })
+        ).data
+
+        const { id } = (
+            await this.http.post(
+                `${this.baseUrl}/v2/pre-recorded`,
+                {
+                    audio_url,
+                    ...(options.vocabulary.length > 0 && {
+                        custom_vocabulary: true,
+                        custom_vocabulary_config: {
+                            vocabulary: options.vocabulary,
+                        },
+                    }),
+                    ...(options.language && {
+                        language_config: {
+                            languages: [options.language],
+                            code_switching: !options.forceLanguage,
+                        },
+                    }),
+                },
+                { headers },
+            )
+        ).data
+        console.log(`[Gladia] Transcription job ${id} started`)
+
+        const job = await pollUntil<GladiaJob>(
+            async () => {
+                const { data } = await this.http.get<GladiaJob>(
+                    `${this.baseUrl}/v2/pre-recorded/${id}`,
+                    { headers },
+                )
+                if (data.status === 'error') {
+                    throw new Error(
+                        `Gladia transcription ${id} failed (${data.error_code})`,
+                    )
+                }
+                return data.status === 'done' ? data : null
+            },
+            this.pollIntervalMs,
+            timeLeft(this.timeoutMs, options.deadline),
+            `Gladia transcription ${id}`,
+        )
+
+        const transcription = job.result?.transcription
+        const words: TranscriptWord[] = (transcription?.utterances ?? [])
+            .flatMap((utterance) => utterance.words ?? [])
+            .map((word) => ({
+                text: word.word.trim(),
+                start: word.start,
+                end: word.end,
+                confidence: word.confidence ?? null,
+            }))
+            .filter((word) => word.text !== '')
+            .sort((a, b) => a.start - b.start)
+        return { language: transcription?.languages?.[0] ?? null, words }
+    }
+}
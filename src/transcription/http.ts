@@ -0,0 +1,74 @@
+import axios, { AxiosInstance } from 'axios'
+import { randomBytes } from 'crypto'
+
+import { sleep } from '../utils/sleep'
+
+/**
+ * Own axios instance for third-party providers, the global axios defaults
+ * carry the MeetingBaaS API credentials
+ */
+export function createHttpClient(timeoutMs: number): AxiosInstance {
+    const client = axios.create({
+        timeout: timeoutMs,
+        withCredentials: false,
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+    })
+    delete client.defaults.headers.common['Authorization']
+    return client
+}
+
+/**
+ * multipart/form-data body holding a single file
+ */
+export function multipartFile(
+    field: string,
+    filename: string,
+    content: Buffer,
+    contentType: string,
+): { body: Buffer; contentType: string } {
+    const boundary = `----meetingbaas${randomBytes(12).toString('hex')}`
+    const head =
+        `--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="${field}"; filename="${filename}"\r\n` +
+        `Content-Type: ${contentType}\r\n\r\n`
+    return {
+        body: Buffer.concat([
+            Buffer.from(head),
+            content,
+            Buffer.from(`\r\n--${boundary}--\r\n`),
+        ]),
+        contentType: `multipart/form-data; boundary=${boundary}`,
+    }
+}
+
+/**
+ * `timeoutMs` cut down to the time left before `deadline` (ms), if any
+ */
+export function timeLeft(timeoutMs: number, deadline?: number): number {
+    if (deadline === undefined) {
+        return timeoutMs
+    }
+    return Math.max(0, Math.min(timeoutMs, deadline - Date.now()))
+}
+
+/**
+ * Call `poll` every `intervalMs` until it returns a value
+ * @throws Error after `timeoutMs`
+ */
+export async function pollUntil<T>(
+    poll: () => Promise<T | null>,
+    intervalMs: number,
+    timeoutMs: number,
+    what: string,
+): Promise<T> {
+    const deadline = Date.now() + timeoutMs
+    while (Date.now() < deadline) {
+        const result = await poll()
+        if (result !== null) {
+            return result
+        }
+        await sleep(intervalMs)
+    }
+    throw new Error(`${what} did not complete within ${timeoutMs / 1000}s`)
+}
@@ -0,0 +1,323 @@
+import * as fs from 'fs'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import * as os from 'os'
+import * as path from 'path'
+
+import { GladiaProvider } from './gladia'
+import { RunPodProvider } from './runpod'
+
+type Request = {
+    method: string
+    url: string
+    headers: http.IncomingHttpHeaders
+    body: Buffer
+}
+
+type Route = (request: Request) => { status?: number; json: unknown }
+
+/**
+ * Local HTTP stand-in answering with the routes matching `METHOD /path`
+ */
+async function startStandIn(routes: Record<string, Route>) {
+    const requests: Request[] = []
+    const server = http.createServer((req, res) => {
+        const chunks: Buffer[] = []
+        req.on('data', (chunk) => chunks.push(chunk))
+        req.on('end', () => {
+            const request = {
+                method: req.method,
+                url: req.url,
+                headers: req.headers,
+                body: Buffer.concat(chunks),
+            }
+            requests.push(request)
+            const route = routes[`${req.method} ${req.url}`]
+            const { status, json } = route
+                ? route(request)
+                : { status: 404, json: { message: 'not found' } }
+            res.writeHead(status ?? 200, {
+                'Content-Type': 'application/json',
+            })
+            res.end(JSON.stringify(json))
+        })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise((resolve) => server.close(resolve)),
+    }
+}
+
+const OPTIONS = {
+    vocabulary: ['MeetingBaaS', 'Kubernetes'],
+    language: 'fr',
+    forceLanguage: true,
+}
+
+const GLADIA_DONE = {
+    status: 'done',
+    result: {
+        transcription: {
+            languages: ['fr'],
+            utterances: [
+                {
+                    words: [
+                        { word: ' monde', start: 0.6, end: 1, confidence: 0.8 },
+                    ],
+                },
+                {
+                    words: [
+                        {
+                            word: ' Bonjour',
+                            start: 0.1,
+                            end: 0.5,
+                            confidence: 0.9,
+                        },
+                    ],
+                },
+            ],
+        },
+    },
+}
+
+const RUNPOD_COMPLETED = {
+    id: 'rp-1',
+    status: 'COMPLETED',
+    output: {
+        detected_language: 'fr',
+        segments: [
+            {
+                words: [
+                    { word: ' Salut', start: 0.2, end: 0.4, probability: 0.7 },
+                    { word: ' ', start: 0.4, end: 0.4 },
+                ],
+            },
+        ],
+    },
+}
+
+describe('Speech-to-text providers', () => {
+    let audioPath: string
+
+    beforeAll(() => {
+        audioPath = path.join(
+            fs.mkdtempSync(path.join(os.tmpdir(), 'stt-')),
+            'chunk-0000.wav',
+        )
+        fs.writeFileSync(audioPath, Buffer.from('RIFF fake wav data'))
+    })
+
+    describe('Gladia', () => {
+        it('uploads the audio, starts the job and polls it until done', async () => {
+            let polls = 0
+            const standIn = await startStandIn({
+                'POST /v2/upload': () => ({
+                    json: { audio_url: 'https://gladia/audio/1' },
+                }),
+                'POST /v2/pre-recorded': () => ({ json: { id: 'job-1' } }),
+                'GET /v2/pre-recorded/job-1': () => ({
+                    json: ++polls < 2 ? { status: 'processing' } : GLADIA_DONE,
+                }),
+            })
+            try {
+                const provider = new GladiaProvider('gladia-key', {
+                    baseUrl: `${standIn.url}/`,
+                    pollIntervalMs: 10,
+                })
+                const result = await provider.transcribe(audioPath, OPTIONS)
+
+                expect(result).toEqual({
+                    language: 'fr',
+                    words: [
+                        {
+                            text: 'Bonjour',
+                            start: 0.1,
+                            end: 0.5,
+                            confidence: 0.9,
+                        },
+                        { text: 'monde', start: 0.6, end: 1, confidence: 0.8 },
+                    ],
+                })
+                const [upload, start] = standIn.requests
+                expect(upload.headers['x-gladia-key']).toBe('gladia-key')
+                expect(upload.headers['authorization']).toBeUndefined()
+                expect(upload.headers['content-type']).toMatch(
+                    /^multipart\/form-data; boundary=/,
+                )
+                expect(upload.body.toString()).toContain('RIFF fake wav data')
+                expect(JSON.parse(start.body.toString())).toEqual({
+                    audio_url: 'https://gladia/audio/1',
+                    custom_vocabulary: true,
+                    custom_vocabulary_config: {
+                        vocabulary: ['MeetingBaaS', 'Kubernetes'],
+                    },
+                    language_config: {
+                        languages: ['fr'],
+                        code_switching: false,
+                    },
+                })
+            } finally {
+                await standIn.close()
+            }
+        })
+
+        it('omits the vocabulary and language when not given', async () => {
+            const standIn = await startStandIn({
+                'POST /v2/upload': () => ({ json: { audio_url: 'a' } }),
+                'POST /v2/pre-recorded': () => ({ json: { id: 'job-2' } }),
+                'GET /v2/pre-recorded/job-2': () => ({
+                    json: { status: 'done', result: {} },
+                }),
+            })
+            try {
+                const provider = new GladiaProvider('key', {
+                    baseUrl: standIn.url,
+                    pollIntervalMs: 10,
+                })
+                const result = await provider.transcribe(audioPath, {
+                    vocabulary: [],
+                    language: null,
+                    forceLanguage: false,
+                })
+
+                expect(result).toEqual({ language: null, words: [] })
+                const start = JSON.parse(standIn.requests[1].body.toString())
+                expect(start).toEqual({ audio_url: 'a' })
+            } finally {
+                await standIn.close()
+            }
+        })
+
+        it('fails when the job errors', async () => {
+            const standIn = await startStandIn({
+                'POST /v2/upload': () => ({ json: { audio_url: 'a' } }),
+                'POST /v2/pre-recorded': () => ({ json: { id: 'job-3' } }),
+                'GET /v2/pre-recorded/job-3': () => ({
+                    json: { status: 'error', error_code: 422 },
+                }),
+            })
+            try {
+                const provider = new GladiaProvider('key', {
+                    baseUrl: standIn.url,
+                    pollIntervalMs: 10,
+                })
+                await expect(
+                    provider.transcribe(audioPath, OPTIONS),
+                ).rejects.toThrow('Gladia transcription job-3 failed (422)')
+            } finally {
+                await standIn.close()
+            }
+        })
+    })
+
+    describe('RunPod', () => {
+        it('sends the audio inline and polls the job status', async () => {
+            let polls = 0
+            const standIn = await startStandIn({
+                'POST /v2/endpoint/run': () => ({
+                    json: { id: 'rp-1', status: 'IN_QUEUE' },
+                }),
+                'GET /v2/endpoint/status/rp-1': () => ({
+                    json:
+                        ++polls < 2
+                            ? { id: 'rp-1', status: 'IN_PROGRESS' }
+                            : RUNPOD_COMPLETED,
+                }),
+            })
+            try {
+                const provider = new RunPodProvider('runpod-key', {
+                    endpointUrl: `${standIn.url}/v2/endpoint`,
+                    pollIntervalMs: 10,
+                })
+                const result = await provider.transcribe(audioPath, OPTIONS)
+
+                expect(result).toEqual({
+                    language: 'fr',
+                    words: [
+                        {
+                            text: 'Salut',
+                            start: 0.2,
+                            end: 0.4,
+                            confidence: 0.7,
+                        },
+                    ],
+                })
+                const [run, status] = standIn.requests
+                expect(run.headers['authorization']).toBe('Bearer runpod-key')
+                expect(status.headers['authorization']).toBe(
+                    'Bearer runpod-key',
+                )
+                expect(JSON.parse(run.body.toString())).toEqual({
+                    input: {
+                        audio_base64:
+                            Buffer.from('RIFF fake wav data').toString(
+                                'base64',
+                            ),
+                        model: 'large-v3',
+                        word_timestamps: true,
+                        language: 'fr',
+                        initial_prompt: 'MeetingBaaS, Kubernetes',
+                    },
+                })
+            } finally {
+                await standIn.close()
+            }
+        })
+
+        it('lets Whisper detect the language unless forced', async () => {
+            const standIn = await startStandIn({
+                'POST /run': () => ({
+                    json: {
+                        id: 'rp-2',
+                        status: 'COMPLETED',
+                        output: { word_timestamps: [] },
+                    },
+                }),
+            })
+            try {
+                const provider = new RunPodProvider('key', {
+                    endpointUrl: standIn.url,
+                    pollIntervalMs: 10,
+                })
+                const result = await provider.transcribe(audioPath, {
+                    ...OPTIONS,
+                    forceLanguage: false,
+                })
+
+                expect(result).toEqual({ language: null, words: [] })
+                // Completed synchronously, no status poll
+                expect(standIn.requests).toHaveLength(1)
+                expect(
+                    JSON.parse(standIn.requests[0].body.toString()).input,
+                ).not.toHaveProperty('language')
+            } finally {
+                await standIn.close()
+            }
+        })
+
+        it('fails when the job fails', async () => {
+            const standIn = await startStandIn({
+                'POST /run': () => ({
+                    json: { id: 'rp-3', status: 'IN_QUEUE' },
+                }),
+                'GET /status/rp-3': () => ({
+                    json: { id: 'rp-3', status: 'FAILED', error: 'CUDA OOM' },
+                }),
+            })
+            try {
+                const provider = new RunPodProvider('key', {
+                    endpointUrl: standIn.url,
+                    pollIntervalMs: 10,
+                })
+                await expect(
+                    provider.transcribe(audioPath, OPTIONS),
+                ).rejects.toThrow('RunPod job rp-3 failed: CUDA OOM')
+            } finally {
+                await standIn.close()
+            }
+        })
+    })
+})
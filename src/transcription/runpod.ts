@@ -0,0 +1,134 @@
+import * as fs from 'fs'
+
+import { createHttpClient, pollUntil, timeLeft } from './http'
+import {
+    SpeechToTextProvider,
+    TranscriptionOptions,
+    TranscriptionResult,
+    TranscriptWord,
+} from './types'
+
+type WhisperWord = {
+    word: string
+    start: number
+    end: number
+    probability?: number
+}
+
+type RunPodJob = {
+    id: string
+    status:
+        | 'IN_QUEUE'
+        | 'IN_PROGRESS'
+        | 'COMPLETED'
+        | 'FAILED'
+        | 'CANCELLED'
+        | 'TIMED_OUT'
+    error?: string
+    output?: {
+        detected_language?: string
+        word_timestamps?: WhisperWord[]
+        segments?: { words?: WhisperWord[] }[]
+    }
+}
+
+const FAILED_STATUSES = ['FAILED', 'CANCELLED', 'TIMED_OUT']
+
+export type RunPodOptions = {
+    // https://api.runpod.ai/v2/<endpoint id>
+    endpointUrl: string
+    model?: string
+    pollIntervalMs?: number
+    timeoutMs?: number
+}
+
+/**
+ * RunPod serverless endpoint running the faster-whisper worker, the audio
+ * is sent inline so chunks stay under the request size limit
+ */
+export class RunPodProvider implements SpeechToTextProvider {
+    public readonly name = 'RunPod'
+    // 2 minutes of 16 kHz s16 mono WAV is 3.84 MB, about 5.1 MB once base64
+    // encoded, under the 10 MB body limit of /run
+    public readonly maxChunkDuration = 120
+    private readonly http = createHttpClient(60_000)
+    private readonly endpointUrl: string
+    private readonly model: string
+    private readonly pollIntervalMs: number
+    private readonly timeoutMs: number
+
+    constructor(
+        private readonly apiKey: string,
+        options: RunPodOptions,
+    ) {
+        this.endpointUrl = options.endpointUrl.replace(/\/+$/, '')
+        this.model = options.model ?? 'large-v3'
+        this.pollIntervalMs = options.pollIntervalMs ?? 2000
+        this.timeoutMs = options.timeoutMs ?? 15 * 60 * 1000
+    }
+
+    public async transcribe(
+        audioPath: string,
+        options: TranscriptionOptions,
+    ): Promise<TranscriptionResult> {
+        const headers = { Authorization: `Bearer ${this.apiKey}` }
+
+        const { data: started } = await this.http.post<RunPodJob>(
+            `${this.endpointUrl}/run`,
+            {
+                input: {
+                    audio_base64: (
+                        await fs.promises.readFile(audioPath)
+                    ).toString('base64'),
+                    model: this.model,
+                    word_timestamps: true,
+                    // Whisper detects the language unless it is forced
+                    ...(options.language &&
+                        options.forceLanguage && {
+                            language: options.language,
+                        }),
+                    // The prompt biases Whisper towards these spellings
+                    ...(options.vocabulary.length > 0 && {
+                        initial_prompt: options.vocabulary.join(', '),
+                    }),
+                },
+            },
+            { headers },
+        )
+
+        const job = await pollUntil<RunPodJob>(
+            async () => {
+                const { data } =
+                    started.status === 'COMPLETED'
+                        ? { data: started }
+                        : await this.http.get<RunPodJob>(
+                              `${this.endpointUrl}/status/${started.id}`,
+                              { headers },
+                          )
+                if (FAILED_STATUSES.includes(data.status)) {
+                    throw new Error(
+                        `RunPod job ${started.id} ${data.status.toLowerCase()}: ${data.error ?? 'no details'}`,
+                    )
+                }
+                return data.status === 'COMPLETED' ? data : null
+            },
+            this.pollIntervalMs,
+            timeLeft(this.timeoutMs, options.deadline),
+            `RunPod job ${started.id}`,
+        )
+
+        const output = job.output ?? {}
+        const whisperWords =
+            output.word_timestamps ??
+            (output.segments ?? []).flatMap((segment) => segment.words ?? [])
+        const words: TranscriptWord[] = whisperWords
+            .map((word) => ({
+                text: word.word.trim(),
+                start: word.start,
+                end: word.end,
+                confidence: word.probability ?? null,
+            }))
+            .filter((word) => word.text !== '')
+        return { language: output.detected_language ?? null, words }
+    }
+}
@@ -0,0 +1,210 @@
+import { GladiaProvider } from './gladia'
+import { RunPodProvider } from './runpod'
+import {
+    createSpeechToTextProvider,
+    transcribeChunks,
+    transcriptionOptions,
+} from './transcriber'
+import { SpeechToTextProvider, TranscriptionResult } from './types'
+import { LocalWhisperProvider } from './whisper'
+
+const CONFIG = {
+    gladia_api_url: 'https://api.gladia.io',
+    runpod_endpoint_url: 'https://api.runpod.ai/v2/endpoint',
+    whisper_cpp_path: 'whisper-cli',
+    whisper_model_path: '/models/ggml-base.bin',
+    whisper_threads: 4,
+}
+
+describe('Transcriber', () => {
+    describe('createSpeechToTextProvider', () => {
+        it('leaves the Default provider to the backend', () => {
+            expect(
+                createSpeechToTextProvider(
+                    { speech_to_text_provider: 'Default' },
+                    CONFIG,
+                ),
+            ).toBeNull()
+            expect(createSpeechToTextProvider({}, CONFIG)).toBeNull()
+        })
+
+        it('creates the Gladia and RunPod providers', () => {
+            expect(
+                createSpeechToTextProvider(
+                    {
+                        speech_to_text_provider: 'Gladia',
+                        speech_to_text_api_key: 'key',
+                    },
+                    CONFIG,
+                ),
+            ).toBeInstanceOf(GladiaProvider)
+            expect(
+                createSpeechToTextProvider(
+                    {
+                        speech_to_text_provider: 'RunPod',
+                        speech_to_text_api_key: 'key',
+                    },
+                    CONFIG,
+                ),
+            ).toBeInstanceOf(RunPodProvider)
+        })
+
+        it('runs the Local provider without an api key', () => {
+            expect(
+                createSpeechToTextProvider(
+                    { speech_to_text_provider: 'Local' },
+                    CONFIG,
+                ),
+            ).toBeInstanceOf(LocalWhisperProvider)
+            expect(() =>
+                createSpeechToTextProvider(
+                    { speech_to_text_provider: 'Local' },
+                    { ...CONFIG, whisper_model_path: null },
+                ),
+            ).toThrow('Local requires the whisper_model_path config')
+        })
+
+        it('requires the api key and the RunPod endpoint', () => {
+            expect(() =>
+                createSpeechToTextProvider(
+                    { speech_to_text_provider: 'Gladia' },
+                    CONFIG,
+                ),
+            ).toThrow('Gladia requires speech_to_text_api_key')
+            expect(() =>
+                createSpeechToTextProvider(
+                    {
+                        speech_to_text_provider: 'RunPod',
+                        speech_to_text_api_key: 'key',
+                    },
+                    { ...CONFIG, runpod_endpoint_url: null },
+                ),
+            ).toThrow('RunPod requires the runpod_endpoint_url config')
+        })
+    })
+
+    describe('transcriptionOptions', () => {
+        it('uses the vocabulary only with use_my_vocabulary', () => {
+            const params = {
+                vocabulary: ['MeetingBaaS', ' '],
+                use_my_vocabulary: true,
+                speech_to_text_language: 'de',
+                force_lang: true,
+            }
+            expect(transcriptionOptions(params)).toEqual({
+                vocabulary: ['MeetingBaaS'],
+                language: 'de',
+                forceLanguage: true,
+            })
+            expect(
+                transcriptionOptions({
+                    ...params,
+                    use_my_vocabulary: false,
+                    speech_to_text_language: undefined,
+                    force_lang: false,
+                }),
+            ).toEqual({ vocabulary: [], language: null, forceLanguage: false })
+        })
+
+        it('never takes the spoken language from translation_lang', () => {
+            const params = {
+                vocabulary: [],
+                use_my_vocabulary: false,
+                translation_lang: 'fr',
+                force_lang: true,
+            }
+            expect(transcriptionOptions(params).language).toBeNull()
+        })
+    })
+
+    describe('transcribeChunks', () => {
+        it('puts the words of each chunk back on the recording timeline', async () => {
+            const results: Record<string, TranscriptionResult> = {
+                'a.wav': {
+                    language: null,
+                    words: [{ text: 'one', start: 0.5, end: 1, confidence: 1 }],
+                },
+                'b.wav': {
+                    language: 'en',
+                    words: [
+                        { text: 'two', start: 0.1, end: 0.3, confidence: null },
+                    ],
+                },
+            }
+            const provider: SpeechToTextProvider = {
+                name: 'Fake',
+                maxChunkDuration: 120,
+                transcribe: jest.fn(async (audioPath) => results[audioPath]),
+            }
+            const options = {
+                vocabulary: [],
+                language: null,
+                forceLanguage: false,
+            }
+
+            const transcript = await transcribeChunks(
+                provider,
+                [
+                    { path: 'a.wav', offset: 0 },
+                    { path: 'b.wav', offset: 120 },
+                ],
+                options,
+            )
+
+            expect(transcript).toEqual({
+                provider: 'Fake',
+                language: 'en',
+                words: [
+                    { text: 'one', start: 0.5, end: 1, confidence: 1 },
+                    { text: 'two', start: 120.1, end: 120.3, confidence: null },
+                ],
+            })
+            expect(provider.transcribe).toHaveBeenCalledWith('b.wav', options)
+        })
+
+        it('keeps the chunks transcribed before the deadline', async () => {
+            let now = 1000
+            jest.spyOn(Date, 'now').mockImplementation(() => now)
+            const provider: SpeechToTextProvider = {
+                name: 'Fake',
+                maxChunkDuration: 120,
+                transcribe: jest.fn(async (audioPath) => {
+                    if (audioPath === 'b.wav') {
+                        now = 5000
+                        throw new Error('Fake job did not complete')
+                    }
+                    return {
+                        language: 'en',
+                        words: [
+                            { text: 'one', start: 1, end: 2, confidence: 1 },
+                        ],
+                    }
+                }),
+            }
+
+            try {
+                const transcript = await transcribeChunks(
+                    provider,
+                    [
+                        { path: 'a.wav', offset: 0 },
+                        { path: 'b.wav', offset: 120 },
+                        { path: 'c.wav', offset: 240 },
+                    ],
+                    {
+                        vocabulary: [],
+                        language: null,
+                        forceLanguage: false,
+                        deadline: 4000,
+                    },
+                )
+
+                expect(transcript.words).toEqual([
+                    { text: 'one', start: 1, end: 2, confidence: 1 },
+                ])
+                expect(provider.transcribe).toHaveBeenCalledTimes(2)
+            } finally {
+                jest.restoreAllMocks()
+            }
+        })
+    })
+})
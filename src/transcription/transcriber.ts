@@ -0,0 +1,146 @@
+import { BotConfig } from '../config'
+import { MeetingParams } from '../types'
+import { GladiaProvider } from './gladia'
+import { RunPodProvider } from './runpod'
+import { SpeechToTextProvider, Transcript, TranscriptionOptions } from './types'
+import { LocalWhisperProvider } from './whisper'
+
+export type TranscriptionConfig = Pick<
+    BotConfig,
+    | 'gladia_api_url'
+    | 'runpod_endpoint_url'
+    | 'whisper_cpp_path'
+    | 'whisper_model_path'
+    | 'whisper_threads'
+>
+
+// Audio file of the recording and its offset on it, in seconds
+export type AudioChunk = {
+    path: string
+    offset: number
+}
+
+/**
+ * Provider transcribing the recording in the bot itself
+ * @returns null for the Default provider, transcribed by the MeetingBaaS
+ * backend from the uploaded audio chunks
+ * @throws Error when the provider is missing its credentials, endpoint or model
+ */
+export function createSpeechToTextProvider(
+    params: Pick<
+        MeetingParams,
+        'speech_to_text_provider' | 'speech_to_text_api_key'
+    >,
+    config: TranscriptionConfig,
+): SpeechToTextProvider | null {
+    const provider = params.speech_to_text_provider
+    if (!provider || provider === 'Default') {
+        return null
+    }
+    if (provider === 'Local') {
+        if (!config.whisper_model_path) {
+            throw new Error('Local requires the whisper_model_path config')
+        }
+        return new LocalWhisperProvider(config.whisper_cpp_path, {
+            modelPath: config.whisper_model_path,
+            threads: config.whisper_threads,
+        })
+    }
+    if (!params.speech_to_text_api_key) {
+        throw new Error(`${provider} requires speech_to_text_api_key`)
+    }
+
+    switch (provider) {
+        case 'Gladia':
+            return new GladiaProvider(params.speech_to_text_api_key, {
+                baseUrl: config.gladia_api_url,
+            })
+        case 'RunPod':
+            if (!config.runpod_endpoint_url) {
+                throw new Error(
+                    'RunPod requires the runpod_endpoint_url config',
+                )
+            }
+            return new RunPodProvider(params.speech_to_text_api_key, {
+                endpointUrl: config.runpod_endpoint_url,
+            })
+        default:
+            throw new Error(`Unknown speech-to-text provider ${provider}`)
+    }
+}
+
+/**
+ * `vocabulary` only applies with `use_my_vocabulary`. `translation_lang` is
+ * the language the captions are translated into, not the spoken one
+ */
+export function transcriptionOptions(
+    params: Pick<
+        MeetingParams,
+        | 'vocabulary'
+        | 'use_my_vocabulary'
+        | 'speech_to_text_language'
+        | 'force_lang'
+    >,
+): TranscriptionOptions {
+    return {
+        vocabulary: params.use_my_vocabulary
+            ? (params.vocabulary ?? []).filter((word) => word.trim() !== '')
+            : [],
+        language: params.speech_to_text_language || null,
+        forceLanguage: params.force_lang === true,
+    }
+}
+
+/**
+ * Transcribe the chunks one after the other and put their words back on the
+ * recording timeline. Past `options.deadline`, the chunks transcribed so far
+ * are kept and the others skipped
+ */
+export async function transcribeChunks(
+    provider: SpeechToTextProvider,
+    chunks: AudioChunk[],
+    options: TranscriptionOptions,
+): Promise<Transcript> {
+    const transcript: Transcript = {
+        provider: provider.name,
+        language: null,
+        words: [],
+    }
+    for (const [index, chunk] of chunks.entries()) {
+        console.log(
+            `[Transcription] ${provider.name}: chunk ${index + 1}/${chunks.length} at ${chunk.offset}s`,
+        )
+        // A chunk failing once out of time is skipped like the next ones
+        const result = outOfTime(options)
+            ? null
+            : await provider.transcribe(chunk.path, options).catch((error) => {
+                  if (outOfTime(options)) {
+                      return null
+                  }
+                  throw error
+              })
+        if (result === null) {
+            console.warn(
+                `[Transcription] ${provider.name}: out of time, ${chunks.length - index} chunk(s) skipped`,
+            )
+            break
+        }
+        transcript.language = transcript.language ?? result.language
+        for (const word of result.words) {
+            transcript.words.push({
+                ...word,
+                start: roundSeconds(chunk.offset + word.start),
+                end: roundSeconds(chunk.offset + word.end),
+            })
+        }
+    }
+    return transcript
+}
+
+function outOfTime(options: TranscriptionOptions): boolean {
+    return options.deadline !== undefined && Date.now() >= options.deadline
+}
+
+function roundSeconds(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000
+}
@@ -0,0 +1,42 @@
+// Timestamps are in seconds
+export type TranscriptWord = {
+    text: string
+    start: number
+    end: number
+    confidence: number | null
+}
+
+export type TranscriptionOptions = {
+    // Words and names the provider should favor
+    vocabulary: string[]
+    // ISO 639-1 code of the spoken language, null to detect it
+    language: string | null
+    // Transcribe everything in `language`, instead of only hinting it
+    forceLanguage: boolean
+    // Time (ms) the whole transcription must be over by, none by default
+    deadline?: number
+}
+
+export type TranscriptionResult = {
+    language: string | null
+    // Timestamps from the start of the transcribed file
+    words: TranscriptWord[]
+}
+
+// transcript.json, timestamps from the start of the recording
+export type Transcript = {
+    provider: string
+    language: string | null
+    words: TranscriptWord[]
+}
+
+export interface SpeechToTextProvider {
+    readonly name: string
+    // Longest audio file accepted in one request, the recording is split
+    // into chunks of at most this duration
+    readonly maxChunkDuration: number
+    transcribe(
+        audioPath: string,
+        options: TranscriptionOptions,
+    ): Promise<TranscriptionResult>
+}
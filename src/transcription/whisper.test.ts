@@ -0,0 +1,182 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import { LocalWhisperProvider, parseWhisperCppOutput } from './whisper'
+
+const OUTPUT = {
+    result: { language: 'fr' },
+    transcription: [
+        {
+            text: '',
+            offsets: { from: 0, to: 0 },
+            tokens: [{ text: '[_BEG_]', p: 1 }],
+        },
+        {
+            text: ' Bonjour',
+            offsets: { from: 120, to: 480 },
+            tokens: [
+                { text: '[_BEG_]', p: 0.1 },
+                { text: ' Bon', p: 0.9 },
+                { text: 'jour', p: 0.7 },
+            ],
+        },
+        { text: ' monde', offsets: { from: 480, to: 900 } },
+    ],
+}
+
+/**
+ * Stand-in for the whisper.cpp CLI writing OUTPUT next to --output-file and
+ * its arguments to args.json
+ */
+function writeFakeCli(dir: string, exitCode = 0): string {
+    const cliPath = path.join(dir, 'whisper-cli')
+    fs.writeFileSync(
+        cliPath,
+        `#!/usr/bin/env node
+const fs = require('fs')
+const args = process.argv.slice(2)
+fs.writeFileSync(${JSON.stringify(path.join(dir, 'args.json'))}, JSON.stringify(args))
+if (${exitCode} !== 0) {
+    console.error('failed to load model')
+    process.exit(${exitCode})
+}
+const base = args[args.indexOf('--output-file') + 1]
+fs.writeFileSync(base + '.json', ${JSON.stringify(JSON.stringify(OUTPUT))})
+`,
+    )
+    fs.chmodSync(cliPath, 0o755)
+    return cliPath
+}
+
+describe('Local whisper.cpp provider', () => {
+    let dir: string
+    let audioPath: string
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'whisper-'))
+        audioPath = path.join(dir, 'chunk-0000.wav')
+        fs.writeFileSync(audioPath, Buffer.from('RIFF fake wav data'))
+    })
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('parses one word per segment and skips special tokens', () => {
+        expect(parseWhisperCppOutput(OUTPUT)).toEqual({
+            language: 'fr',
+            words: [
+                { text: 'Bonjour', start: 0.12, end: 0.48, confidence: 0.8 },
+                { text: 'monde', start: 0.48, end: 0.9, confidence: null },
+            ],
+        })
+    })
+
+    it('runs the CLI with the model, language and vocabulary', async () => {
+        const provider = new LocalWhisperProvider(writeFakeCli(dir), {
+            modelPath: '/models/ggml-base.bin',
+            threads: 2,
+        })
+
+        const result = await provider.transcribe(audioPath, {
+            vocabulary: ['MeetingBaaS', 'Kubernetes'],
+            language: 'fr',
+            forceLanguage: true,
+        })
+
+        expect(result.words.map((word) => word.text)).toEqual([
+            'Bonjour',
+            'monde',
+        ])
+        const args = JSON.parse(
+            fs.readFileSync(path.join(dir, 'args.json'), 'utf8'),
+        )
+        expect(args).toEqual(
+            expect.arrayContaining([
+                '--model',
+                '/models/ggml-base.bin',
+                '--file',
+                audioPath,
+                '--threads',
+                '2',
+                '--max-len',
+                '1',
+                '--language',
+                'fr',
+                '--prompt',
+                'MeetingBaaS, Kubernetes',
+            ]),
+        )
+        expect(args[args.indexOf('--language') + 1]).toBe('fr')
+        // The JSON output is removed once parsed
+        expect(fs.existsSync(path.join(dir, 'chunk-0000.json'))).toBe(false)
+    })
+
+    it('detects the language unless forced', async () => {
+        const provider = new LocalWhisperProvider(writeFakeCli(dir), {
+            modelPath: '/models/ggml-base.bin',
+        })
+
+        await provider.transcribe(audioPath, {
+            vocabulary: [],
+            language: 'fr',
+            forceLanguage: false,
+        })
+
+        const args = JSON.parse(
+            fs.readFileSync(path.join(dir, 'args.json'), 'utf8'),
+        )
+        expect(args[args.indexOf('--language') + 1]).toBe('auto')
+        expect(args).not.toContain('--prompt')
+    })
+
+    it('fails with the CLI error output', async () => {
+        const provider = new LocalWhisperProvider(writeFakeCli(dir, 3), {
+            modelPath: '/models/missing.bin',
+        })
+
+        await expect(
+            provider.transcribe(audioPath, {
+                vocabulary: [],
+                language: null,
+                forceLanguage: false,
+            }),
+        ).rejects.toThrow('whisper.cpp exited with 3: failed to load model')
+    })
+
+    it('stops the CLI at the deadline', async () => {
+        const cliPath = path.join(dir, 'slow-whisper-cli')
+        fs.writeFileSync(
+            cliPath,
+            '#!/usr/bin/env node\nsetTimeout(() => {}, 60000)\n',
+        )
+        fs.chmodSync(cliPath, 0o755)
+        const provider = new LocalWhisperProvider(cliPath, {
+            modelPath: '/models/ggml-base.bin',
+        })
+
+        await expect(
+            provider.transcribe(audioPath, {
+                vocabulary: [],
+                language: null,
+                forceLanguage: false,
+                deadline: Date.now() + 500,
+            }),
+        ).rejects.toThrow('whisper.cpp exited with SIGKILL')
+    })
+
+    it('fails when the CLI is not installed', async () => {
+        const provider = new LocalWhisperProvider(path.join(dir, 'missing'), {
+            modelPath: '/models/ggml-base.bin',
+        })
+
+        await expect(
+            provider.transcribe(audioPath, {
+                vocabulary: [],
+                language: null,
+                forceLanguage: false,
+            }),
+        ).rejects.toThrow('whisper.cpp unavailable')
+    })
+})
@@ -0,0 +1,162 @@
+import { spawn } from 'child_process'
+import * as fs from 'fs'
+
+import { timeLeft } from './http'
+import {
+    SpeechToTextProvider,
+    TranscriptionOptions,
+    TranscriptionResult,
+    TranscriptWord,
+} from './types'
+
+// Output of `--output-json-full`, offsets are in milliseconds
+type WhisperCppToken = {
+    text: string
+    p?: number
+}
+
+type WhisperCppSegment = {
+    text: string
+    offsets: { from: number; to: number }
+    tokens?: WhisperCppToken[]
+}
+
+export type WhisperCppOutput = {
+    result?: { language?: string }
+    transcription?: WhisperCppSegment[]
+}
+
+export type LocalWhisperOptions = {
+    modelPath: string
+    threads?: number
+    timeoutMs?: number
+}
+
+/**
+ * Words of a whisper.cpp JSON output run with one word per segment
+ */
+export function parseWhisperCppOutput(
+    output: WhisperCppOutput,
+): TranscriptionResult {
+    const words: TranscriptWord[] = (output.transcription ?? [])
+        .map((segment) => {
+            // Special tokens ([_BEG_], [_TT_150]...) carry no text
+            const probabilities = (segment.tokens ?? [])
+                .filter((token) => !token.text.startsWith('[_'))
+                .map((token) => token.p)
+                .filter((p) => typeof p === 'number')
+            return {
+                text: segment.text.trim(),
+                start: segment.offsets.from / 1000,
+                end: segment.offsets.to / 1000,
+                confidence:
+                    probabilities.length > 0
+                        ? probabilities.reduce((sum, p) => sum + p, 0) /
+                          probabilities.length
+                        : null,
+            }
+        })
+        .filter((word) => word.text !== '')
+    return { language: output.result?.language ?? null, words }
+}
+
+/**
+ * Locally installed whisper.cpp CLI, the audio never leaves the machine
+ */
+export class LocalWhisperProvider implements SpeechToTextProvider {
+    public readonly name = 'Local'
+    // whisper.cpp streams the file in 30 seconds windows, chunks only bound
+    // the work lost when a run fails
+    public readonly maxChunkDuration = 3600
+    private readonly modelPath: string
+    private readonly threads: number
+    private readonly timeoutMs: number
+
+    constructor(
+        private readonly binaryPath: string,
+        options: LocalWhisperOptions,
+    ) {
+        this.modelPath = options.modelPath
+        this.threads = options.threads ?? 4
+        this.timeoutMs = options.timeoutMs ?? 45 * 60 * 1000
+    }
+
+    public async transcribe(
+        audioPath: string,
+        options: TranscriptionOptions,
+    ): Promise<TranscriptionResult> {
+        const outputBase = audioPath.replace(/\.wav$/, '')
+        const args = [
+            '--model',
+            this.modelPath,
+            '--file',
+            audioPath,
+            '--threads',
+            this.threads.toString(),
+            // One word per segment gives word timestamps
+            '--max-len',
+            '1',
+            '--split-on-word',
+            // whisper.cpp defaults to English, detect the language unless forced
+            '--language',
+            options.language && options.forceLanguage
+                ? options.language
+                : 'auto',
+            '--output-json-full',
+            '--output-file',
+            outputBase,
+            '--no-prints',
+        ]
+        if (options.vocabulary.length > 0) {
+            args.push('--prompt', options.vocabulary.join(', '))
+        }
+
+        await this.run(args, timeLeft(this.timeoutMs, options.deadline))
+
+        const outputPath = `${outputBase}.json`
+        try {
+            return parseWhisperCppOutput(
+                JSON.parse(await fs.promises.readFile(outputPath, 'utf8')),
+            )
+        } finally {
+            await fs.promises.rm(outputPath, { force: true })
+        }
+    }
+
+    private run(args: string[], timeoutMs: number): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(this.binaryPath, args)
+            let stderr = ''
+
+            child.stderr?.on('data', (data) => {
+                stderr += data.toString()
+            })
+
+            const timeoutId = setTimeout(() => {
+                child.kill('SIGKILL')
+            }, timeoutMs)
+
+            child.on('close', (code, signal) => {
+                clearTimeout(timeoutId)
+                if (code === 0) {
+                    resolve()
+                } else {
+                    reject(
+                        new Error(
+                            `whisper.cpp exited with ${code ?? signal}: ${stderr.trim().slice(-500)}`,
+                        ),
+                    )
+                }
+            })
+
+            child.on('error', (error) => {
+                clearTimeout(timeoutId)
+                reject(
+                    new Error(
+                        `whisper.cpp unavailable (${this.binaryPath}): ${error.message}`,
+                    ),
+                )
+            })
+        })
+    }
+}
@@ -1,6 +1,6 @@
 import { BrowserContext, Page } from '@playwright/test'
 
-type SpeechToTextProvider = 'Default' | 'Gladia' | 'RunPod'
+export type SpeechToTextProviderName = 'Default' | 'Gladia' | 'RunPod' | 'Local'
 
 // Support both PascalCase and snake_case for recording_mode
 export type RecordingMode =
@@ -34,6 +34,8 @@ export interface MeetingProviderInterface {
         _enter_message?: string,
     ): string
     closeMeeting(page: Page): Promise<void>
+    /** Post a message to the meeting chat, resolves to false if it could not be sent */
+    sendChatMessage(page: Page, text: string): Promise<boolean>
 }
 
 export type MeetingParams = {
@@ -52,8 +54,10 @@ export type MeetingParams = {
     vocabulary: string[]
     force_lang: boolean
     translation_lang?: string
-    speech_to_text_provider?: SpeechToTextProvider
+    speech_to_text_provider?: SpeechToTextProviderName
     speech_to_text_api_key?: string
+    // ISO 639-1 code of the spoken language, detected when not set
+    speech_to_text_language?: string
     streaming_input?: string
     streaming_output?: string
     streaming_audio_frequency?: number
@@ -69,14 +73,25 @@ export type MeetingParams = {
         // The number of seconds after which the bot will automatically leave the call, if it has joined the meeting but no other participant has joined.
         noone_joined_timeout: number
         // The number of seconds after which the bot will automatically leave the call, if there were other participants in the call who have all left.
-        // everyone_left_timeout?: number
+        everyone_left_timeout?: number
         // The number of seconds after which the bot will automatically leave the call, if it has joined the call but not started recording.
-        // in_call_not_recording_timeout?: number
-        // The number of seconds after which the bot will automatically leave the call, if it has joined the call and started recording it. This can be used to enforce a maximum recording time limit for a bot. There is no default value for this parameter, meaning a bot will continue to record for as long as the meeting lasts.
-        // in_call_recording_timeout?: number
-        // The number of seconds after which the bot will automatically leave the call, if it has joined the call but has not started recording. For e.g This can occur due to bot being denied permission to record(Zoom meetings).
-        // recording_permission_denied_timeout?: number
+        in_call_not_recording_timeout?: number
+        // The number of seconds after which the bot will automatically leave the call, if it has joined the call and started recording it. This can be used to enforce a maximum recording time limit for a bot. Defaults to 4 hours.
+        in_call_recording_timeout?: number
+        // The number of seconds after which the bot will automatically leave the call, if it has joined the call but the recorder could not start capturing the screen and audio (capture devices denied or unavailable).
+        recording_permission_denied_timeout?: number
+        // The number of seconds after which the bot will automatically leave the call, if no sound has been heard.
+        silence_timeout?: number
     }
+    // Ordered auto-leave policy, the first condition met makes the bot leave.
+    // Defaults to the automatic_leave timeouts (empty meeting, silence).
+    end_conditions?: EndConditionConfig[]
+    // Scheduled window, ISO 8601 dates or Unix timestamps in seconds.
+    // The bot waits to join, records nothing before start_recording_at
+    // and leaves at stop_recording_at.
+    join_at?: ScheduleTime
+    start_recording_at?: ScheduleTime
+    stop_recording_at?: ScheduleTime
     mp4_s3_path: string
     // ----------------- TODO -------------------- SECTION RAJOUTEE
     environ: string // local, prod or preprod
@@ -90,10 +105,31 @@ export type MeetingParams = {
     extra?: any
     zoom_sdk_id?: string
     zoom_sdk_pwd?: string
-    /** @deprecated Not used; may still arrive in payloads. Do not log or persist. */
+    /** Shared secret authenticating control API requests (bearer or HMAC). Do not log or persist. */
     secret?: string
 }
 
+export type ScheduleTime = string | number
+
+// Timeouts are in seconds
+export type EndConditionConfig =
+    | { type: 'silence'; timeout?: number }
+    | {
+          type: 'empty_meeting'
+          noone_joined_timeout?: number
+          everyone_left_timeout?: number
+      }
+    | { type: 'max_duration'; timeout: number }
+    | {
+          type: 'only_bots_remaining'
+          timeout?: number
+          // Case-insensitive name fragments identifying other bots
+          bot_names?: string[]
+      }
+    | { type: 'participant_left'; name: string; timeout?: number }
+    // Local time "HH:MM" in the IANA timezone (defaults to UTC)
+    | { type: 'time_of_day'; time: string; timezone?: string }
+
 export type StopRecordParams = {
     meeting_url: string
     user_id: number
@@ -104,5 +140,23 @@ export type SpeakerData = {
     id: number
     timestamp: number
     isSpeaking: boolean
+    // Participant indicators, when the provider exposes them
+    isMuted?: boolean
+    isCameraOff?: boolean
+    isPresenting?: boolean
+    isHandRaised?: boolean
+}
+
+export type ChatMessage = {
+    sender: string
+    text: string
+    timestamp: number // seconds from the start of the recording
+}
+
+export type CaptionSegment = {
+    speaker: string
+    text: string
+    start: number // seconds from the start of the recording
+    end: number
 }
 export type MeetingProvider = 'Meet' | 'Teams' | 'Zoom'
@@ -1,13 +1,14 @@
-import { Api } from './api/methods'
-import { ApiTypes } from './api/types'
+import { Config } from './config'
+import { DiarizationChange } from './diarization-tracker'
 import { GLOBAL } from './singleton'
 import { MeetingStateMachine } from './state-machine/machine'
-import { SpeakerData } from './types'
+import { createTranscriptSinks, TranscriptSink } from './transcript-sinks'
+import { PathManager } from './utils/PathManager'
+import { recordingOffset } from './utils/timeline'
 
 import * as asyncLib from 'async'
 
-var LAST_TRANSRIPT: ApiTypes.QueryableTranscript | null = null
-var TRANSCIBER_STOPED: boolean = false
+var TRANSCRIPT_SINKS: TranscriptSink[] | null = null
 var TRANSCRIPT_QUEUE = newTranscriptQueue()
 
 function newTranscriptQueue() {
@@ -20,26 +21,46 @@ function newTranscriptQueue() {
     }, 1) // One operation at the same time
 }
 
-// IMPORTANT : For reasons of current compatibility, this function is only called
-// with a single speaker and not an array of multiple speakers. Handling multiple
-// speakers should be implemented at some point.
+function getTranscriptSinks(): TranscriptSink[] {
+    if (TRANSCRIPT_SINKS === null) {
+        const params = GLOBAL.get()
+        TRANSCRIPT_SINKS = createTranscriptSinks(
+            Config.getInstance().get('transcript_sinks'),
+            {
+                serverless: GLOBAL.isServerless(),
+                diarizationPath: PathManager.getInstance().getDiarizationPath(),
+                webhookUrl:
+                    Config.getInstance().get('transcript_webhook_url') ??
+                    params.bots_webhook_url ??
+                    null,
+                botId: params.bot_uuid,
+                apiKey: params.bots_api_key ?? null,
+            },
+        )
+        console.log(
+            `Transcript sinks: ${TRANSCRIPT_SINKS.map((sink) => sink.name).join(', ') || 'none'}`,
+        )
+    }
+    return TRANSCRIPT_SINKS
+}
+
+/**
+ * Write the started and ended diarization segments to the configured
+ * sinks, overlapping speakers get parallel segments
+ */
 export async function uploadTranscriptTask(
-    speaker: SpeakerData,
-    end: boolean,
+    changes: DiarizationChange[],
 ): Promise<void> {
-    if (GLOBAL.isServerless()) {
-        console.log('Skipping transcript upload - serverless mode')
-        return
-    }
-    if (speaker.timestamp === null || speaker.timestamp === undefined) {
-        console.log('Skipping transcript upload - timestamps not yet available')
+    if (changes.length === 0) {
         return
     }
 
     return new Promise((resolve, reject) => {
         TRANSCRIPT_QUEUE.push(async () => {
             try {
-                await upload(speaker, end)
+                for (const change of changes) {
+                    await upload(change)
+                }
                 resolve()
             } catch (error) {
                 reject(error)
@@ -48,12 +69,8 @@ export async function uploadTranscriptTask(
     })
 }
 
-async function upload(speaker: SpeakerData, end: boolean) {
-    if (TRANSCIBER_STOPED) {
-        console.info('Transcriber is stoped')
-        return
-    }
-    const meetingStartTime = MeetingStateMachine.instance.getStartTime()
+async function upload(change: DiarizationChange) {
+    const meetingStartTime = MeetingStateMachine.instance?.getStartTime()
     if (meetingStartTime == null || meetingStartTime == undefined) {
         console.warn(
             'Meeting start time not available for posting transcript - skipping',
@@ -61,53 +78,21 @@ async function upload(speaker: SpeakerData, end: boolean) {
         return
     }
 
-    try {
-        const api = Api.instance
-        if (LAST_TRANSRIPT) {
-            try {
-                await api.patchTranscript({
-                    id: LAST_TRANSRIPT.id,
-                    end_time: (speaker.timestamp - meetingStartTime) / 1000,
-                } as ApiTypes.ChangeableTranscript)
-            } catch (e) {
-                console.error(
-                    'Failed to patch transcript, continuing execution:',
-                    e,
-                )
-                // Continue execution despite error
-            }
-        }
-
-        if (end === true) {
-            // Just patch the last transcript if in end
-            TRANSCIBER_STOPED = true
-            return
-        } else {
-            try {
-                if (meetingStartTime == null || meetingStartTime == undefined) {
-                    console.warn(
-                        'Meeting start time not available for posting transcript - skipping',
-                    )
-                    return
-                }
-
-                LAST_TRANSRIPT = await api.postTranscript({
-                    speaker: speaker.name,
-                    start_time: (speaker.timestamp - meetingStartTime) / 1000,
-                } as ApiTypes.PostableTranscript)
-            } catch (e) {
-                console.error(
-                    'Failed to post transcript, continuing execution:',
-                    e,
-                )
-                // Continue execution despite error
-            }
+    const segmentChange = {
+        type: change.type,
+        speaker: change.speaker,
+        offset: recordingOffset(change.timestamp, meetingStartTime),
+        concurrentSpeakers: change.concurrentSpeakers,
+    }
+    for (const sink of getTranscriptSinks()) {
+        try {
+            await sink.write(segmentChange)
+        } catch (e) {
+            console.error(
+                `Failed to write transcript to the ${sink.name} sink, continuing execution:`,
+                e,
+            )
+            // Continue execution despite error
         }
-    } catch (e) {
-        console.error(
-            'Unexpected error in transcript upload, continuing execution:',
-            e,
-        )
-        // Continue execution despite any errors
     }
 }
@@ -3,6 +3,7 @@ import path from 'path'
 import winston from 'winston'
 import { GLOBAL } from '../singleton'
 import { PathManager } from './PathManager'
+import { Redactor } from './Redactor'
 import { s3cp, S3Uploader } from './S3Uploader'
 
 // Reference to current bot log file
@@ -11,7 +12,14 @@ let currentBotLogFile: string | null = null
 // Store current caller info globally
 let currentCaller = 'unknown:0'
 
+// Last line of defense, also covers the messages logged through winston directly
+const redactMessage = winston.format((info) => {
+    info.message = Redactor.getInstance().redactText(String(info.message))
+    return info
+})
+
 let format = winston.format.combine(
+    redactMessage(),
     winston.format.colorize({
         all: true,
         colors: {
@@ -69,24 +77,21 @@ function formatTable(data: any): string {
 }
 
 function formatArgs(msg: string, args: any[]) {
-    return (
-        msg +
-        ' ' +
-        args
-            .map((arg) => {
-                if (arg === null) return 'null'
-                if (arg === undefined) return 'undefined'
-                if (typeof arg === 'object') {
-                    try {
-                        return JSON.stringify(arg, null, 2)
-                    } catch (e) {
-                        return String(arg)
-                    }
-                }
+    const redactor = Redactor.getInstance()
+    const formatArg = (arg: any) => {
+        if (arg === null) return 'null'
+        if (arg === undefined) return 'undefined'
+        if (typeof arg === 'object') {
+            try {
+                return JSON.stringify(redactor.redactValue(arg), null, 2)
+            } catch (e) {
                 return String(arg)
-            })
-            .join(' ')
-    )
+            }
+        }
+        return String(arg)
+    }
+    // console.log(object) passes the object as the message
+    return formatArg(msg) + ' ' + args.map(formatArg).join(' ')
 }
 
 // Function to capture caller info at the console override level
@@ -154,12 +159,46 @@ export function setupConsoleLogger() {
     }
     console.table = (data: any) => {
         currentCaller = getCaller()
-        logger.info(formatTable(data))
+        logger.info(formatTable(Redactor.getInstance().redactValue(data)))
     }
 
     console.log('Console logger setup complete')
 }
 
+/**
+ * Upload a text log with its secrets masked, the local file is left as is.
+ * Key assignments are kept in `userContent` (chat, captions, names...),
+ * they are what participants said rather than secrets.
+ */
+async function uploadRedacted(
+    localPath: string,
+    s3Path: string,
+    userContent: boolean = true,
+): Promise<void> {
+    const content = await fs.promises.readFile(localPath, 'utf-8')
+    const redactor = Redactor.getInstance()
+    const redacted = userContent
+        ? redactor.redactContent(content)
+        : redactor.redactText(content)
+    if (redacted === content) {
+        await s3cp(localPath, s3Path)
+        return
+    }
+
+    const tempDir = PathManager.getInstance().getTempPath()
+    await fs.promises.mkdir(tempDir, { recursive: true })
+    const redactedPath = path.join(
+        tempDir,
+        `redacted_${path.basename(localPath)}`,
+    )
+    await fs.promises.writeFile(redactedPath, redacted)
+    try {
+        await s3cp(redactedPath, s3Path)
+    } finally {
+        await fs.promises.rm(redactedPath, { force: true })
+    }
+}
+
 export async function uploadLogsToS3(options: {
     error?: Error
 }): Promise<void> {
@@ -175,10 +214,54 @@ export async function uploadLogsToS3(options: {
         const speakerLogPath = pathManager.getSpeakerLogPath()
         const s3SpeakerLogPath = `${logPath}/speaker_separation.log`
 
+        // Chat log file
+        const chatLogPath = pathManager.getChatLogPath()
+        const s3ChatLogPath = `${logPath}/chat.json`
+
+        // Live captions files
+        const captionsPath = pathManager.getCaptionsPath()
+        const s3CaptionsPath = `${logPath}/captions.json`
+        const captionsVttPath = pathManager.getCaptionsVttPath()
+        const s3CaptionsVttPath = `${logPath}/captions.vtt`
+
+        // Participants attendance file
+        const participantsPath = pathManager.getParticipantsPath()
+        const s3ParticipantsPath = `${logPath}/participants.json`
+
+        // Screen-share intervals file
+        const screenSharesPath = pathManager.getScreenSharesPath()
+        const s3ScreenSharesPath = `${logPath}/screenshares.json`
+
+        // Diarization segments file, with the overlapping speakers
+        const diarizationPath = pathManager.getDiarizationPath()
+        const s3DiarizationPath = `${logPath}/diarization.json`
+
+        // Talk-time analytics file
+        const analyticsPath = pathManager.getAnalyticsPath()
+        const s3AnalyticsPath = `${logPath}/analytics.json`
+
+        // Scheduled recording window file
+        const recordingWindowPath = pathManager.getRecordingWindowPath()
+        const s3RecordingWindowPath = `${logPath}/recording_window.json`
+
+        // Speech-to-text transcript file
+        const transcriptPath = pathManager.getTranscriptPath()
+        const s3TranscriptPath = `${logPath}/transcript.json`
+        const speakerTranscriptPaths = (
+            ['json', 'srt', 'vtt', 'txt'] as const
+        ).map((format) => ({
+            local: pathManager.getSpeakerTranscriptPath(format),
+            s3: `${logPath}/speaker_transcript.${format}`,
+        }))
+
         // Screenshots directory
         const screenshotsPath = pathManager.getScreenshotsPath()
         const s3ScreenshotsPath = `${logPath}/screenshots`
 
+        // Slides directory (images and index.json)
+        const slidesPath = pathManager.getSlidesPath()
+        const s3SlidesPath = `${logPath}/slides`
+
         // HTML snapshots directory
         const htmlSnapshotsPath = pathManager.getHtmlSnapshotsPath()
         const s3HtmlSnapshotsPath = `${logPath}/html_snapshots`
@@ -186,14 +269,23 @@ export async function uploadLogsToS3(options: {
         console.log('Looking for internal log files at:', {
             soundLogPath,
             speakerLogPath,
+            chatLogPath,
+            captionsPath,
+            participantsPath,
+            screenSharesPath,
+            diarizationPath,
+            analyticsPath,
+            recordingWindowPath,
+            transcriptPath,
             screenshotsPath,
+            slidesPath,
             htmlSnapshotsPath,
         })
 
         // Upload sound log file (internal log file)
         if (fs.existsSync(soundLogPath)) {
             logger.info(`Uploading sound logs to S3...`)
-            await s3cp(soundLogPath, s3SoundLogPath)
+            await uploadRedacted(soundLogPath, s3SoundLogPath, false)
             logger.info(`Sound logs uploaded to S3`)
         } else {
             console.log('No sound log file found at path:', soundLogPath)
@@ -202,7 +294,7 @@ export async function uploadLogsToS3(options: {
         // Upload speaker separation log file
         if (fs.existsSync(speakerLogPath)) {
             logger.info(`Uploading speaker separation logs to S3...`)
-            await s3cp(speakerLogPath, s3SpeakerLogPath)
+            await uploadRedacted(speakerLogPath, s3SpeakerLogPath)
             logger.info(`Speaker separation logs uploaded to S3`)
         } else {
             console.log(
@@ -211,6 +303,87 @@ export async function uploadLogsToS3(options: {
             )
         }
 
+        // Upload chat log file
+        if (fs.existsSync(chatLogPath)) {
+            logger.info(`Uploading chat log to S3...`)
+            await uploadRedacted(chatLogPath, s3ChatLogPath)
+            logger.info(`Chat log uploaded to S3`)
+        } else {
+            console.log('No chat log file found at path:', chatLogPath)
+        }
+
+        // Upload live captions files
+        if (fs.existsSync(captionsPath)) {
+            logger.info(`Uploading captions to S3...`)
+            await uploadRedacted(captionsPath, s3CaptionsPath)
+            if (fs.existsSync(captionsVttPath)) {
+                await uploadRedacted(captionsVttPath, s3CaptionsVttPath)
+            }
+            logger.info(`Captions uploaded to S3`)
+        } else {
+            console.log('No captions file found at path:', captionsPath)
+        }
+
+        // Upload participants attendance file
+        if (fs.existsSync(participantsPath)) {
+            logger.info(`Uploading participants to S3...`)
+            await uploadRedacted(participantsPath, s3ParticipantsPath)
+            logger.info(`Participants uploaded to S3`)
+        } else {
+            console.log('No participants file found at path:', participantsPath)
+        }
+
+        // Upload screen-share intervals file
+        if (fs.existsSync(screenSharesPath)) {
+            logger.info(`Uploading screen shares to S3...`)
+            await uploadRedacted(screenSharesPath, s3ScreenSharesPath)
+            logger.info(`Screen shares uploaded to S3`)
+        } else {
+            console.log(
+                'No screen shares file found at path:',
+                screenSharesPath,
+            )
+        }
+
+        // Upload diarization segments file
+        if (fs.existsSync(diarizationPath)) {
+            logger.info(`Uploading diarization to S3...`)
+            await uploadRedacted(diarizationPath, s3DiarizationPath)
+            logger.info(`Diarization uploaded to S3`)
+        }
+
+        // Upload talk-time analytics file
+        if (fs.existsSync(analyticsPath)) {
+            logger.info(`Uploading analytics to S3...`)
+            await uploadRedacted(analyticsPath, s3AnalyticsPath)
+            logger.info(`Analytics uploaded to S3`)
+        }
+
+        // Upload scheduled recording window file, only scheduled meetings
+        if (fs.existsSync(recordingWindowPath)) {
+            logger.info(`Uploading recording window to S3...`)
+            await uploadRedacted(
+                recordingWindowPath,
+                s3RecordingWindowPath,
+                false,
+            )
+            logger.info(`Recording window uploaded to S3`)
+        }
+
+        // Upload transcript file, only with the Gladia and RunPod providers
+        if (fs.existsSync(transcriptPath)) {
+            logger.info(`Uploading transcript to S3...`)
+            await uploadRedacted(transcriptPath, s3TranscriptPath)
+            logger.info(`Transcript uploaded to S3`)
+        }
+
+        // Upload speaker-labeled transcript files, only with a transcript
+        for (const { local, s3 } of speakerTranscriptPaths) {
+            if (fs.existsSync(local)) {
+                await uploadRedacted(local, s3)
+            }
+        }
+
         // Upload screenshots directory
         if (fs.existsSync(screenshotsPath)) {
             const screenshotFiles = fs.readdirSync(screenshotsPath)
@@ -256,6 +429,43 @@ export async function uploadLogsToS3(options: {
             )
         }
 
+        // Upload slides directory
+        if (fs.existsSync(slidesPath)) {
+            const slideFiles = fs.readdirSync(slidesPath)
+            if (slideFiles.length > 0) {
+                logger.info(
+                    `Uploading ${slideFiles.length} slide files to S3...`,
+                )
+
+                // Use directory sync for better performance
+                try {
+                    await S3Uploader.getInstance()?.uploadDirectory(
+                        slidesPath,
+                        GLOBAL.get().remote?.aws_s3_log_bucket!,
+                        s3SlidesPath,
+                    )
+                    logger.info('Slides uploaded to S3')
+                } catch (error) {
+                    logger.error(
+                        'Slides directory sync failed, falling back to individual uploads:',
+                        error,
+                    )
+                    // Fallback to individual uploads
+                    for (const filename of slideFiles) {
+                        await s3cp(
+                            path.join(slidesPath, filename),
+                            `${s3SlidesPath}/${filename}`,
+                        )
+                    }
+                    logger.info('Slides uploaded to S3 (fallback)')
+                }
+            } else {
+                console.log('Slides directory exists but is empty:', slidesPath)
+            }
+        } else {
+            console.log('No slides directory found at path:', slidesPath)
+        }
+
         // Upload HTML snapshots directory
         if (fs.existsSync(htmlSnapshotsPath)) {
             const htmlSnapshotFiles = fs.readdirSync(htmlSnapshotsPath)
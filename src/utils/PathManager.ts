@@ -1,8 +1,9 @@
 import * as fs from 'fs/promises'
 import * as path from 'path'
+import { Config } from '../config'
 import { GLOBAL } from '../singleton'
 
-const EFS_MOUNT_POINT = process.env.EFS_MOUNT_POINT || '/mnt/efs'
+const EFS_MOUNT_POINT = Config.getInstance().get('efs_mount_point')
 
 export class PathManager {
     private static instance: PathManager
@@ -31,6 +32,8 @@ export class PathManager {
             this.getTempPath(),
             this.getAudioTmpPath(),
             this.getScreenshotsPath(),
+            this.getSlidesPath(),
+            this.getSlideCandidatesPath(),
             this.getHtmlSnapshotsPath(),
         ]
 
@@ -75,6 +78,48 @@ export class PathManager {
         return path.join(this.getBasePath(), 'speaker_separation.log')
     }
 
+    public getChatLogPath(): string {
+        return path.join(this.getBasePath(), 'chat.json')
+    }
+
+    public getParticipantsPath(): string {
+        return path.join(this.getBasePath(), 'participants.json')
+    }
+
+    public getScreenSharesPath(): string {
+        return path.join(this.getBasePath(), 'screenshares.json')
+    }
+
+    public getDiarizationPath(): string {
+        return path.join(this.getBasePath(), 'diarization.json')
+    }
+
+    public getAnalyticsPath(): string {
+        return path.join(this.getBasePath(), 'analytics.json')
+    }
+
+    public getRecordingWindowPath(): string {
+        return path.join(this.getBasePath(), 'recording_window.json')
+    }
+
+    public getTranscriptPath(): string {
+        return path.join(this.getBasePath(), 'transcript.json')
+    }
+
+    public getSpeakerTranscriptPath(
+        format: 'json' | 'srt' | 'vtt' | 'txt',
+    ): string {
+        return path.join(this.getBasePath(), `speaker_transcript.${format}`)
+    }
+
+    public getCaptionsPath(): string {
+        return path.join(this.getBasePath(), 'captions.json')
+    }
+
+    public getCaptionsVttPath(): string {
+        return path.join(this.getBasePath(), 'captions.vtt')
+    }
+
     public getSoundLogPath(): string {
         return path.join(this.getBasePath(), 'sound_levels.log')
     }
@@ -87,6 +132,19 @@ export class PathManager {
         return path.join(this.getBasePath(), 'screenshots')
     }
 
+    public getSlidesPath(): string {
+        return path.join(this.getBasePath(), 'slides')
+    }
+
+    public getSlidesIndexPath(): string {
+        return path.join(this.getSlidesPath(), 'index.json')
+    }
+
+    // Scene-change frames, kept as slides only if captured during a screen share
+    public getSlideCandidatesPath(): string {
+        return path.join(this.getTempPath(), 'slide_candidates')
+    }
+
     public getHtmlSnapshotsPath(): string {
         return path.join(this.getBasePath(), 'html_snapshots')
     }
@@ -94,7 +152,7 @@ export class PathManager {
     public getS3Paths(): { bucketName: string; s3Path: string } {
         const identifier = this.getIdentifier()
         return {
-            bucketName: process.env.AWS_S3_VIDEO_BUCKET || '',
+            bucketName: Config.getInstance().get('aws_s3_video_bucket'),
             s3Path: `${identifier}`,
         }
     }
@@ -0,0 +1,172 @@
+export const MASK = '***MASKED***'
+
+// Any key containing one of these fragments holds a secret
+const DEFAULT_SENSITIVE_KEYS = [
+    'token',
+    'secret',
+    'password',
+    'pwd',
+    'api_key',
+    'apikey',
+    'authorization',
+    'cookie',
+    'credential',
+    'signature',
+]
+
+const DEFAULT_SENSITIVE_PATTERNS = [
+    /\bBearer\s+[\w.~+/-]+=*/gi, // Authorization headers
+    /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, // JWTs
+    /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, // AWS access key ids
+]
+
+// Shorter values would mask ordinary words
+const MIN_SECRET_LENGTH = 8
+
+/**
+ * Masks secrets in log arguments, log files and HTML snapshots. Values of
+ * sensitive keys seen in redacted objects are remembered, so that they are
+ * also masked when they show up later in plain text (URLs, headers...).
+ */
+export class Redactor {
+    private static instance: Redactor | null = null
+    private readonly keyFragments: string[]
+    private readonly keyAssignment: RegExp
+    private readonly patterns: RegExp[]
+    private readonly secrets: Set<string> = new Set()
+
+    constructor(extraKeys: string[] = [], extraPatterns: string[] = []) {
+        this.keyFragments = [...DEFAULT_SENSITIVE_KEYS, ...extraKeys].map(
+            normalizeKey,
+        )
+        // `key: value`, `"key": "value"` and `key=value` in plain text, quotes
+        // may be escaped in stringified JSON.
+        // Bounded key length, HTML snapshots hold very long words
+        const keys = this.keyFragments
+            .map((key) => escapeRegExp(key).replace(/_/g, '[-_]?'))
+            .join('|')
+        this.keyAssignment = new RegExp(
+            `(\\\\?["']?[\\w-]{0,40}(?:${keys})[\\w-]{0,40}\\\\?["']?\\s*[:=]\\s*\\\\?["']?)([^"'\\\\\\s,&;}<]+)`,
+            'gi',
+        )
+        this.patterns = [
+            ...DEFAULT_SENSITIVE_PATTERNS,
+            ...extraPatterns.map((pattern) => {
+                try {
+                    return new RegExp(pattern, 'g')
+                } catch (error) {
+                    throw new Error(
+                        `Invalid redact pattern ${pattern}: ${(error as Error).message}`,
+                    )
+                }
+            }),
+        ]
+    }
+
+    /**
+     * Add the configured keys and patterns, the defaults apply until then
+     */
+    public static init(extraKeys: string[], extraPatterns: string[]): void {
+        Redactor.instance = new Redactor(extraKeys, extraPatterns)
+    }
+
+    public static getInstance(): Redactor {
+        if (!Redactor.instance) {
+            Redactor.instance = new Redactor()
+        }
+        return Redactor.instance
+    }
+
+    public isSensitiveKey(key: string): boolean {
+        const normalized = normalizeKey(key)
+        return this.keyFragments.some((fragment) =>
+            normalized.includes(fragment),
+        )
+    }
+
+    /**
+     * Copy of plain objects and arrays with the values of sensitive keys
+     * masked, other values are returned as is
+     */
+    public redactValue(value: unknown): unknown {
+        return this.redactDeep(value, new WeakMap())
+    }
+
+    public redactText(text: string): string {
+        return this.redactContent(text).replace(this.keyAssignment, `$1${MASK}`)
+    }
+
+    /**
+     * Mask the known secrets and patterns only, for what participants said
+     * or wrote where `password: ...` is part of the conversation
+     */
+    public redactContent(text: string): string {
+        let redacted = text
+        for (const secret of this.secrets) {
+            redacted = redacted.split(secret).join(MASK)
+        }
+        for (const pattern of this.patterns) {
+            redacted = redacted.replace(pattern, MASK)
+        }
+        return redacted
+    }
+
+    private redactDeep(
+        value: unknown,
+        seen: WeakMap<object, unknown>,
+    ): unknown {
+        if (!isPlainObject(value) && !Array.isArray(value)) {
+            return value
+        }
+        if (seen.has(value)) {
+            return seen.get(value)
+        }
+
+        if (Array.isArray(value)) {
+            const copy: unknown[] = []
+            seen.set(value, copy)
+            for (const item of value) {
+                copy.push(this.redactDeep(item, seen))
+            }
+            return copy
+        }
+
+        const copy: Record<string, unknown> = {}
+        seen.set(value, copy)
+        for (const [key, item] of Object.entries(value)) {
+            if (
+                this.isSensitiveKey(key) &&
+                item !== null &&
+                item !== undefined &&
+                item !== ''
+            ) {
+                if (
+                    typeof item === 'string' &&
+                    item.length >= MIN_SECRET_LENGTH
+                ) {
+                    this.secrets.add(item)
+                }
+                copy[key] = MASK
+            } else {
+                copy[key] = this.redactDeep(item, seen)
+            }
+        }
+        return copy
+    }
+}
+
+function normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/-/g, '_')
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+        return false
+    }
+    const prototype = Object.getPrototypeOf(value)
+    return prototype === Object.prototype || prototype === null
+}
@@ -1,9 +1,14 @@
 import { MeetingProvider } from '../types'
 
 export function detectMeetingProvider(url: string): MeetingProvider {
-    if (url.includes('https://teams')) {
+    // Same cleanup as the Meet parser, which accepts links without a scheme
+    const cleanUrl = url.trim().replace(/^"(.*)"$/, '$1')
+    if (cleanUrl.includes('https://teams')) {
         return 'Teams'
-    } else if (url.includes('https://meet')) {
+    } else if (
+        cleanUrl.includes('https://meet') ||
+        cleanUrl.startsWith('meet.')
+    ) {
         return 'Meet'
     } else {
         throw new Error('Unsupported meeting provider')
@@ -0,0 +1,98 @@
+import {
+    getRecordingWindow,
+    hasRecordingWindow,
+    parseScheduleTime,
+    recordingWindowToJson,
+    validateRecordingWindow,
+} from './recordingWindow'
+
+describe('recordingWindow', () => {
+    const NOW = Date.UTC(2024, 0, 1, 9, 0, 0)
+
+    it('parses ISO dates and Unix timestamps in seconds', () => {
+        expect(parseScheduleTime('2024-01-01T10:00:00Z')).toBe(
+            Date.UTC(2024, 0, 1, 10, 0, 0),
+        )
+        expect(parseScheduleTime('2024-01-01T11:00:00+01:00')).toBe(
+            Date.UTC(2024, 0, 1, 10, 0, 0),
+        )
+        expect(parseScheduleTime(1704103200)).toBe(
+            Date.UTC(2024, 0, 1, 10, 0, 0),
+        )
+        expect(parseScheduleTime(undefined)).toBeNull()
+        expect(parseScheduleTime('')).toBeNull()
+        expect(() => parseScheduleTime('tomorrow')).toThrow(
+            'must be an ISO 8601 date or a Unix timestamp',
+        )
+        expect(() => parseScheduleTime(true)).toThrow()
+    })
+
+    it('reports the scheduled window as ISO dates', () => {
+        const window = getRecordingWindow({
+            join_at: 1704103200,
+            stop_recording_at: '2024-01-01T11:00:00Z',
+        })
+
+        expect(hasRecordingWindow(window)).toBe(true)
+        expect(recordingWindowToJson(window)).toEqual({
+            join_at: '2024-01-01T10:00:00.000Z',
+            start_recording_at: null,
+            stop_recording_at: '2024-01-01T11:00:00.000Z',
+        })
+        expect(hasRecordingWindow(getRecordingWindow({}))).toBe(false)
+    })
+
+    it('accepts an ordered window in the future', () => {
+        expect(
+            validateRecordingWindow(
+                {
+                    join_at: '2024-01-01T09:55:00Z',
+                    start_recording_at: '2024-01-01T10:00:00Z',
+                    stop_recording_at: '2024-01-01T11:00:00Z',
+                },
+                NOW,
+            ),
+        ).toEqual([])
+        // Joining late is fine, the window has not ended
+        expect(
+            validateRecordingWindow(
+                {
+                    join_at: '2024-01-01T08:00:00Z',
+                    stop_recording_at: '2024-01-01T10:00:00Z',
+                },
+                NOW,
+            ),
+        ).toEqual([])
+    })
+
+    it('reports invalid or misordered times', () => {
+        expect(
+            validateRecordingWindow(
+                {
+                    join_at: 'soon',
+                    start_recording_at: '2024-01-01T10:00:00Z',
+                    stop_recording_at: '2024-01-01T10:00:00Z',
+                },
+                NOW,
+            ),
+        ).toEqual([
+            'join_at: must be an ISO 8601 date or a Unix timestamp',
+            'stop_recording_at: must be after start_recording_at',
+        ])
+        expect(
+            validateRecordingWindow(
+                {
+                    join_at: '2024-01-01T10:00:00Z',
+                    start_recording_at: '2024-01-01T09:30:00Z',
+                },
+                NOW,
+            ),
+        ).toEqual(['start_recording_at: must not be before join_at'])
+        expect(
+            validateRecordingWindow(
+                { stop_recording_at: '2024-01-01T08:00:00Z' },
+                NOW,
+            ),
+        ).toEqual(['stop_recording_at: must be in the future'])
+    })
+})
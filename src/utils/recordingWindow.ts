@@ -0,0 +1,101 @@
+import { MeetingParams } from '../types'
+
+const WINDOW_FIELDS = [
+    'join_at',
+    'start_recording_at',
+    'stop_recording_at',
+] as const
+
+type WindowField = (typeof WINDOW_FIELDS)[number]
+
+// Epoch milliseconds, null when not scheduled
+export type RecordingWindow = Record<WindowField, number | null>
+
+/**
+ * Parse a scheduled time, an ISO 8601 date or a Unix timestamp in seconds
+ * @returns epoch milliseconds, null when unset
+ * @throws Error on an invalid value
+ */
+export function parseScheduleTime(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') {
+        return null
+    }
+    const timestamp =
+        typeof value === 'number'
+            ? value * 1000
+            : typeof value === 'string'
+              ? Date.parse(value)
+              : NaN
+    if (!Number.isFinite(timestamp) || timestamp <= 0) {
+        throw new Error('must be an ISO 8601 date or a Unix timestamp')
+    }
+    return timestamp
+}
+
+export function getRecordingWindow(
+    params: Pick<MeetingParams, WindowField>,
+): RecordingWindow {
+    const window = {} as RecordingWindow
+    for (const field of WINDOW_FIELDS) {
+        window[field] = parseScheduleTime(params[field])
+    }
+    return window
+}
+
+export function hasRecordingWindow(window: RecordingWindow): boolean {
+    return WINDOW_FIELDS.some((field) => window[field] !== null)
+}
+
+/**
+ * Check the scheduled times and their order
+ * @returns every problem found, prefixed with the field name
+ */
+export function validateRecordingWindow(
+    params: Record<string, unknown>,
+    now: number,
+): string[] {
+    const errors: string[] = []
+    const window = {} as RecordingWindow
+    for (const field of WINDOW_FIELDS) {
+        try {
+            window[field] = parseScheduleTime(params[field])
+        } catch (error) {
+            errors.push(`${field}: ${(error as Error).message}`)
+            window[field] = null
+        }
+    }
+
+    const { join_at, start_recording_at, stop_recording_at } = window
+    if (join_at !== null && start_recording_at !== null) {
+        if (start_recording_at < join_at) {
+            errors.push('start_recording_at: must not be before join_at')
+        }
+    }
+    if (stop_recording_at !== null) {
+        const start = start_recording_at ?? join_at
+        if (start !== null && stop_recording_at <= start) {
+            errors.push(
+                `stop_recording_at: must be after ${start_recording_at !== null ? 'start_recording_at' : 'join_at'}`,
+            )
+        } else if (stop_recording_at <= now) {
+            errors.push('stop_recording_at: must be in the future')
+        }
+    }
+    return errors
+}
+
+/**
+ * The window as ISO dates, for webhooks and artifacts
+ */
+export function recordingWindowToJson(
+    window: RecordingWindow,
+): Record<WindowField, string | null> {
+    const json = {} as Record<WindowField, string | null>
+    for (const field of WINDOW_FIELDS) {
+        json[field] =
+            window[field] !== null
+                ? new Date(window[field]).toISOString()
+                : null
+    }
+    return json
+}
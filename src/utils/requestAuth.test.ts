@@ -0,0 +1,204 @@
+import { Request, Response } from 'express'
+
+import { Config } from '../config'
+import { GLOBAL } from '../singleton'
+import { MeetingParams } from '../types'
+import {
+    authenticateRequest,
+    requireAuth,
+    SIGNATURE_HEADER,
+    signRequest,
+    TIMESTAMP_HEADER,
+} from './requestAuth'
+
+const SECRET = 'test-secret'
+const NOW = 1_700_000_000_000
+
+describe('Request authentication', () => {
+    const body = Buffer.from('{"meeting_url":"https://meet.google.com/a"}')
+
+    describe('Bearer token', () => {
+        it('accepts the configured secret', () => {
+            const result = authenticateRequest(
+                {
+                    method: 'POST',
+                    path: '/stop_record',
+                    headers: { authorization: `Bearer ${SECRET}` },
+                },
+                SECRET,
+                NOW,
+            )
+            expect(result).toEqual({ ok: true, scheme: 'bearer' })
+        })
+
+        const cases = [
+            { name: 'missing credentials', headers: {}, status: 401 },
+            {
+                name: 'non bearer scheme',
+                headers: { authorization: `Basic ${SECRET}` },
+                status: 401,
+            },
+            {
+                name: 'wrong token',
+                headers: { authorization: 'Bearer nope' },
+                status: 403,
+            },
+        ]
+
+        cases.forEach(({ name, headers, status }) => {
+            it(`rejects ${name} with ${status}`, () => {
+                const result = authenticateRequest(
+                    { method: 'POST', path: '/play', headers },
+                    SECRET,
+                    NOW,
+                )
+                expect(result.ok).toBe(false)
+                expect(result.ok === false && result.status).toBe(status)
+            })
+        })
+    })
+
+    describe('HMAC signature', () => {
+        const timestamp = String(NOW)
+        const signature = signRequest(
+            SECRET,
+            timestamp,
+            'POST',
+            '/stop_record',
+            body,
+        )
+
+        it('accepts a valid signature', () => {
+            const result = authenticateRequest(
+                {
+                    method: 'POST',
+                    path: '/stop_record',
+                    headers: {
+                        [TIMESTAMP_HEADER]: timestamp,
+                        [SIGNATURE_HEADER]: `sha256=${signature}`,
+                    },
+                    rawBody: body,
+                },
+                SECRET,
+                NOW,
+            )
+            expect(result).toEqual({ ok: true, scheme: 'hmac' })
+        })
+
+        it('rejects a signature replayed on another route', () => {
+            const result = authenticateRequest(
+                {
+                    method: 'POST',
+                    path: '/play',
+                    headers: {
+                        [TIMESTAMP_HEADER]: timestamp,
+                        [SIGNATURE_HEADER]: signature,
+                    },
+                    rawBody: body,
+                },
+                SECRET,
+                NOW,
+            )
+            expect(result.ok === false && result.status).toBe(403)
+        })
+
+        it('rejects an expired timestamp', () => {
+            const result = authenticateRequest(
+                {
+                    method: 'POST',
+                    path: '/stop_record',
+                    headers: {
+                        [TIMESTAMP_HEADER]: timestamp,
+                        [SIGNATURE_HEADER]: signature,
+                    },
+                    rawBody: body,
+                },
+                SECRET,
+                NOW + 10 * 60 * 1000,
+            )
+            expect(result.ok === false && result.status).toBe(401)
+        })
+
+        it('rejects a missing timestamp', () => {
+            const result = authenticateRequest(
+                {
+                    method: 'POST',
+                    path: '/stop_record',
+                    headers: { [SIGNATURE_HEADER]: signature },
+                    rawBody: body,
+                },
+                SECRET,
+                NOW,
+            )
+            expect(result.ok === false && result.status).toBe(401)
+        })
+    })
+
+    describe('requireAuth', () => {
+        function run(
+            secret: string | undefined,
+            headers: Record<string, string> = {},
+            allowUnauthenticated = false,
+        ) {
+            jest.spyOn(GLOBAL, 'get').mockReturnValue({
+                secret,
+            } as MeetingParams)
+            jest.spyOn(Config, 'getInstance').mockReturnValue(
+                new Config([], {
+                    ALLOW_UNAUTHENTICATED_CONTROL: String(allowUnauthenticated),
+                }),
+            )
+            const res = {
+                header: jest.fn(),
+                status: jest.fn(),
+                json: jest.fn(),
+            }
+            res.status.mockReturnValue(res)
+            const next = jest.fn()
+            requireAuth(
+                { method: 'POST', path: '/stop_record', headers } as Request,
+                res as unknown as Response,
+                next,
+            )
+            return { res, next }
+        }
+
+        afterEach(() => {
+            jest.restoreAllMocks()
+        })
+
+        it('rejects every request without a secret', () => {
+            const { res, next } = run(undefined)
+            expect(next).not.toHaveBeenCalled()
+            expect(res.status).toHaveBeenCalledWith(403)
+            expect(res.json).toHaveBeenCalledWith({
+                error: 'Forbidden',
+                details: 'No control secret configured',
+            })
+        })
+
+        it('lets requests through without a secret when allowed', () => {
+            const { res, next } = run(undefined, {}, true)
+            expect(next).toHaveBeenCalled()
+            expect(res.status).not.toHaveBeenCalled()
+        })
+
+        it('asks for credentials on 401', () => {
+            const { res, next } = run(SECRET)
+            expect(next).not.toHaveBeenCalled()
+            expect(res.header).toHaveBeenCalledWith(
+                'WWW-Authenticate',
+                'Bearer',
+            )
+            expect(res.status).toHaveBeenCalledWith(401)
+        })
+
+        it('calls the route with valid credentials', () => {
+            const { res, next } = run(SECRET, {
+                authorization: `Bearer ${SECRET}`,
+            })
+            expect(next).toHaveBeenCalled()
+            expect(res.status).not.toHaveBeenCalled()
+        })
+    })
+})
@@ -0,0 +1,200 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { NextFunction, Request, Response } from 'express'
+
+import { Config } from '../config'
+import { GLOBAL } from '../singleton'
+
+// Maximum accepted clock skew for HMAC signed requests
+const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000
+
+declare global {
+    namespace Express {
+        interface Request {
+            // Payload as received, set by `captureRawBody`
+            rawBody?: Buffer
+        }
+    }
+}
+
+export const TIMESTAMP_HEADER = 'x-bot-timestamp'
+export const SIGNATURE_HEADER = 'x-bot-signature'
+
+export type AuthRequest = {
+    method: string
+    path: string
+    headers: Record<string, string | string[] | undefined>
+    rawBody?: Buffer
+}
+
+export type AuthResult =
+    | { ok: true; scheme: 'bearer' | 'hmac' }
+    | { ok: false; status: 401 | 403; error: string; details: string }
+
+/**
+ * Compute the HMAC signature expected for a control request.
+ * The signed payload is `${timestamp}.${METHOD}.${path}.${body}` so that a
+ * captured signature cannot be replayed against another route.
+ */
+export function signRequest(
+    secret: string,
+    timestamp: string,
+    method: string,
+    path: string,
+    body: Buffer | string = '',
+): string {
+    return createHmac('sha256', secret)
+        .update(`${timestamp}.${method.toUpperCase()}.${path}.`)
+        .update(body)
+        .digest('hex')
+}
+
+/**
+ * Body parser `verify` hook keeping the raw payload for HMAC request
+ * signatures, set on every parser so no body goes unsigned
+ */
+export function captureRawBody(req: Request, _res: unknown, buf: Buffer) {
+    req.rawBody = buf
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a)
+    const bufB = Buffer.from(b)
+    if (bufA.length !== bufB.length) {
+        return false
+    }
+    return timingSafeEqual(bufA, bufB)
+}
+
+function header(req: AuthRequest, name: string): string | undefined {
+    const value = req.headers[name]
+    return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Authenticate a control request against the bot secret.
+ *
+ * Two schemes are accepted:
+ * - `Authorization: Bearer <secret>`
+ * - `X-Bot-Timestamp: <unix ms>` + `X-Bot-Signature: sha256=<hex hmac>`
+ *
+ * Missing or malformed credentials yield a 401, wrong credentials a 403.
+ */
+export function authenticateRequest(
+    req: AuthRequest,
+    secret: string,
+    now: number = Date.now(),
+): AuthResult {
+    const authorization = header(req, 'authorization')
+    const signature = header(req, SIGNATURE_HEADER)
+
+    if (signature !== undefined) {
+        const timestamp = header(req, TIMESTAMP_HEADER)
+        if (!timestamp || !/^\d+$/.test(timestamp)) {
+            return {
+                ok: false,
+                status: 401,
+                error: 'Unauthorized',
+                details: `Missing or invalid ${TIMESTAMP_HEADER} header`,
+            }
+        }
+        if (Math.abs(now - Number(timestamp)) > SIGNATURE_MAX_AGE_MS) {
+            return {
+                ok: false,
+                status: 401,
+                error: 'Unauthorized',
+                details: 'Request timestamp outside of the allowed window',
+            }
+        }
+        const expected = signRequest(
+            secret,
+            timestamp,
+            req.method,
+            req.path,
+            req.rawBody ?? '',
+        )
+        const provided = signature.replace(/^sha256=/, '')
+        if (!safeEqual(provided, expected)) {
+            return {
+                ok: false,
+                status: 403,
+                error: 'Forbidden',
+                details: 'Invalid request signature',
+            }
+        }
+        return { ok: true, scheme: 'hmac' }
+    }
+
+    if (authorization !== undefined) {
+        const match = authorization.match(/^Bearer\s+(.+)$/i)
+        if (!match) {
+            return {
+                ok: false,
+                status: 401,
+                error: 'Unauthorized',
+                details: 'Malformed Authorization header, expected Bearer',
+            }
+        }
+        if (!safeEqual(match[1].trim(), secret)) {
+            return {
+                ok: false,
+                status: 403,
+                error: 'Forbidden',
+                details: 'Invalid bearer token',
+            }
+        }
+        return { ok: true, scheme: 'bearer' }
+    }
+
+    return {
+        ok: false,
+        status: 401,
+        error: 'Unauthorized',
+        details: 'Missing credentials',
+    }
+}
+
+/**
+ * Express middleware protecting the control routes.
+ * Without a secret in MeetingParams, requests are rejected unless the
+ * `allow_unauthenticated_control` config opts out, and still audited.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+    const secret = GLOBAL.get().secret
+    const audit = `[audit] ${req.method} ${req.path} from ${req.ip}`
+
+    if (!secret) {
+        if (Config.getInstance().get('allow_unauthenticated_control')) {
+            console.warn(`${audit} allowed (no control secret configured)`)
+            return next()
+        }
+        console.warn(`${audit} rejected 403: no control secret configured`)
+        return res.status(403).json({
+            error: 'Forbidden',
+            details: 'No control secret configured',
+        })
+    }
+
+    const result = authenticateRequest(
+        {
+            method: req.method,
+            path: req.path,
+            headers: req.headers,
+            rawBody: req.rawBody,
+        },
+        secret,
+    )
+
+    if (result.ok === false) {
+        console.warn(`${audit} rejected ${result.status}: ${result.details}`)
+        if (result.status === 401) {
+            res.header('WWW-Authenticate', 'Bearer')
+        }
+        return res.status(result.status).json({
+            error: result.error,
+            details: result.details,
+        })
+    }
+
+    console.log(`${audit} authorized (${result.scheme})`)
+    return next()
+}
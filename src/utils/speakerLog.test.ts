@@ -0,0 +1,37 @@
+import { parseSpeakerLog } from './speakerLog'
+
+const T0 = 1_700_000_000_000
+
+function snapshot(timestamp: number, speaking: string[], present: string[]) {
+    return JSON.stringify(
+        present.map((name, id) => ({
+            name,
+            id,
+            timestamp,
+            isSpeaking: speaking.includes(name),
+        })),
+    )
+}
+
+describe('Speaker log', () => {
+    it('turns speaker snapshots into speaking turns', () => {
+        const log = [
+            snapshot(T0, ['Alice'], ['Alice', 'Bob']),
+            snapshot(T0 + 2000, ['Alice', 'Bob'], ['Alice', 'Bob']),
+            'not json',
+            snapshot(T0 + 3000, ['Bob'], ['Alice', 'Bob']),
+            // Alice left the meeting while Bob keeps talking
+            snapshot(T0 + 5000, ['Bob'], ['Bob']),
+            snapshot(T0 + 6000, [], ['Bob']),
+            snapshot(T0 + 8000, ['Bob'], ['Bob']),
+            '',
+        ].join('\n')
+
+        expect(parseSpeakerLog(log)).toEqual([
+            { speaker: 'Alice', start: T0, end: T0 + 3000 },
+            { speaker: 'Bob', start: T0 + 2000, end: T0 + 6000 },
+            // Still speaking at the end of the log
+            { speaker: 'Bob', start: T0 + 8000, end: T0 + 8000 },
+        ])
+    })
+})
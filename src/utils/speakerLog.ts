@@ -0,0 +1,84 @@
+import { SpeakerData } from '../types'
+
+// Speaking turn, in ms (wall clock) or in seconds on the recording
+export type SpeakerInterval = {
+    speaker: string
+    start: number
+    end: number
+}
+
+/**
+ * Speaker name => when they stopped speaking. Speakers still listed carry
+ * their own stop time, the audio fusion may have moved it
+ */
+export function stopTimes(speakers: SpeakerData[]): Map<string, number> {
+    return new Map(
+        speakers
+            .filter((speaker) => speaker.timestamp != null)
+            .map((speaker) => [speaker.name, speaker.timestamp]),
+    )
+}
+
+/**
+ * Speaking turns of `speaker_separation.log`, one SpeakerData[] snapshot per
+ * line. A speaker leaving the snapshot stops speaking, the turns still open
+ * at the end of the log close on its last timestamp
+ */
+export function parseSpeakerLog(content: string): SpeakerInterval[] {
+    const intervals: SpeakerInterval[] = []
+    const open = new Map<string, SpeakerInterval>()
+    let lastTimestamp = 0
+
+    for (const line of content.split('\n')) {
+        if (line.trim() === '') {
+            continue
+        }
+        let speakers: SpeakerData[]
+        try {
+            speakers = JSON.parse(line)
+        } catch (e) {
+            console.warn('[Assembler] Skipping malformed speaker log line')
+            continue
+        }
+        if (!Array.isArray(speakers)) {
+            continue
+        }
+
+        const snapshotTime = Math.max(
+            lastTimestamp,
+            ...speakers.map((speaker) => speaker.timestamp ?? 0),
+        )
+        const speaking = new Map(
+            speakers
+                .filter((speaker) => speaker.isSpeaking === true)
+                .map((speaker) => [speaker.name, speaker.timestamp]),
+        )
+        const stopped = stopTimes(speakers)
+        for (const [name, interval] of open) {
+            if (!speaking.has(name)) {
+                interval.end = Math.max(
+                    interval.start,
+                    stopped.get(name) ?? snapshotTime,
+                )
+                open.delete(name)
+            }
+        }
+        for (const [name, timestamp] of speaking) {
+            if (!open.has(name)) {
+                const interval = {
+                    speaker: name,
+                    start: timestamp,
+                    end: timestamp,
+                }
+                open.set(name, interval)
+                intervals.push(interval)
+            }
+        }
+        lastTimestamp = snapshotTime
+    }
+
+    for (const interval of open.values()) {
+        interval.end = lastTimestamp
+    }
+    return intervals.sort((a, b) => a.start - b.start)
+}
@@ -0,0 +1,48 @@
+import { formatSubtitleTimestamp, toSrt, toWebVtt } from './subtitles'
+
+describe('Subtitles', () => {
+    describe('formatSubtitleTimestamp', () => {
+        const cases = [
+            { seconds: 0, expected: '00:00:00.000' },
+            { seconds: 1.5, expected: '00:00:01.500' },
+            { seconds: 61.0004, expected: '00:01:01.000' },
+            { seconds: 3723.25, expected: '01:02:03.250' },
+            { seconds: -2, expected: '00:00:00.000' },
+        ]
+
+        cases.forEach(({ seconds, expected }) => {
+            it(`formats ${seconds}s as ${expected}`, () => {
+                expect(formatSubtitleTimestamp(seconds)).toBe(expected)
+            })
+        })
+
+        it('uses a comma separator for SRT', () => {
+            expect(formatSubtitleTimestamp(3723.25, ',')).toBe('01:02:03,250')
+        })
+    })
+
+    it('renders WebVTT cues with voice tags', () => {
+        expect(
+            toWebVtt([
+                { start: 0, end: 2.5, speaker: 'Alice', text: 'Hello' },
+                { start: 3, end: 4, text: 'No speaker' },
+            ]),
+        ).toBe(
+            'WEBVTT\n\n' +
+                '00:00:00.000 --> 00:00:02.500\n<v Alice>Hello\n\n' +
+                '00:00:03.000 --> 00:00:04.000\nNo speaker\n',
+        )
+    })
+
+    it('renders numbered SRT cues with speaker prefixes', () => {
+        expect(
+            toSrt([
+                { start: 0, end: 2.5, speaker: 'Alice', text: 'Hello' },
+                { start: 3, end: 4, text: 'No speaker' },
+            ]),
+        ).toBe(
+            '1\n00:00:00,000 --> 00:00:02,500\nAlice: Hello\n\n' +
+                '2\n00:00:03,000 --> 00:00:04,000\nNo speaker\n',
+        )
+    })
+})
@@ -0,0 +1,42 @@
+export type SubtitleCue = {
+    start: number // seconds
+    end: number // seconds
+    speaker?: string
+    text: string
+}
+
+function pad(value: number, length: number = 2): string {
+    return value.toString().padStart(length, '0')
+}
+
+/**
+ * Format seconds as `HH:MM:SS.mmm` (WebVTT) or `HH:MM:SS,mmm` (SRT)
+ */
+export function formatSubtitleTimestamp(
+    seconds: number,
+    separator: '.' | ',' = '.',
+): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000))
+    const hours = Math.floor(totalMs / 3_600_000)
+    const minutes = Math.floor((totalMs % 3_600_000) / 60_000)
+    const secs = Math.floor((totalMs % 60_000) / 1000)
+    const ms = totalMs % 1000
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`
+}
+
+export function toWebVtt(cues: SubtitleCue[]): string {
+    const blocks = cues.map((cue) => {
+        const text = cue.speaker ? `<v ${cue.speaker}>${cue.text}` : cue.text
+        return `${formatSubtitleTimestamp(cue.start)} --> ${formatSubtitleTimestamp(cue.end)}\n${text}`
+    })
+    return ['WEBVTT', ...blocks].join('\n\n') + '\n'
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+    return cues
+        .map((cue, index) => {
+            const text = cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text
+            return `${index + 1}\n${formatSubtitleTimestamp(cue.start, ',')} --> ${formatSubtitleTimestamp(cue.end, ',')}\n${text}\n`
+        })
+        .join('\n')
+}
@@ -0,0 +1,17 @@
+import { ScreenRecorderManager } from '../recording/ScreenRecorder'
+
+/**
+ * Offset in seconds of a wall-clock timestamp on the final recording,
+ * where paused segments are cut out.
+ */
+export function recordingOffset(
+    timestamp: number,
+    meetingStartTime: number,
+): number {
+    const pausedMs =
+        ScreenRecorderManager.getInstance().getPausedDurationBetween(
+            meetingStartTime,
+            timestamp,
+        )
+    return (timestamp - meetingStartTime - pausedMs) / 1000
+}
@@ -0,0 +1,117 @@
+import { validateMeetingParams } from './validateMeetingParams'
+
+describe('validateMeetingParams', () => {
+    const validParams = () => ({
+        meeting_url: 'https://meet.google.com/abc-defg-hij',
+        bot_uuid: 'bot-1',
+        bot_name: 'Recording Bot',
+        recording_mode: 'speaker_view',
+        speech_to_text_provider: 'Default',
+        streaming_input: '',
+        bots_webhook_url: 'https://example.com/webhook',
+        streaming_audio_frequency: 24000,
+        automatic_leave: {
+            waiting_room_timeout: 600,
+            noone_joined_timeout: 600,
+        },
+        remote: null,
+    })
+
+    it('accepts valid params', () => {
+        expect(validateMeetingParams(validParams())).toEqual([])
+        expect(
+            validateMeetingParams({
+                ...validParams(),
+                remote: {
+                    api_server_baseurl: 'https://api.example.com',
+                    aws_s3_video_bucket: 'videos',
+                    aws_s3_log_bucket: 'logs',
+                },
+            }),
+        ).toEqual([])
+    })
+
+    it('reports every problem with its field path', () => {
+        expect(
+            validateMeetingParams({
+                ...validParams(),
+                meeting_url: 'https://zoom.us/j/123',
+                bot_uuid: undefined,
+                recording_mode: 'galery_view',
+                speech_to_text_provider: 'Whisper',
+                streaming_output: 'http://example.com',
+                automatic_leave: {
+                    waiting_room_timeout: '600',
+                    noone_joined_timeout: 600,
+                    silence_timeout: -1,
+                },
+                remote: { api_server_baseurl: 'not a url' },
+            }),
+        ).toEqual([
+            'meeting_url: must be a Google Meet or Microsoft Teams URL',
+            'bot_uuid: is required',
+            expect.stringMatching(/^recording_mode: must be one of/),
+            'speech_to_text_provider: must be one of Default, Gladia, RunPod, Local',
+            'streaming_output: must be a ws(s) URL',
+            'automatic_leave.waiting_room_timeout: must be a number of seconds between 1 and 86400',
+            'automatic_leave.silence_timeout: must be a number of seconds between 1 and 86400',
+            'remote.api_server_baseurl: must be an http(s) URL',
+            'remote.aws_s3_video_bucket: is required',
+            'remote.aws_s3_log_bucket: is required',
+        ])
+    })
+
+    it('accepts the meeting url forms the provider parsers handle', () => {
+        for (const meeting_url of [
+            'Join the meeting\nhttps://meet.google.com/abc-defg-hij\nDial-in: +1 555 0100',
+            '"https://meet.google.com/abc-defg-hij"',
+            'meet.google.com/abc-defg-hij',
+            '  https://teams.microsoft.com/l/meetup-join/abc  ',
+        ]) {
+            expect(
+                validateMeetingParams({ ...validParams(), meeting_url }),
+            ).toEqual([])
+        }
+    })
+
+    it('accepts params without the optional remote field', () => {
+        const { remote, ...params } = validParams()
+        expect(validateMeetingParams(params)).toEqual([])
+        expect(validateMeetingParams({ ...params, remote: 's3' })).toEqual([
+            'remote: must be an object, or null when running serverless',
+        ])
+    })
+
+    it('reports invalid end conditions', () => {
+        expect(
+            validateMeetingParams({
+                ...validParams(),
+                end_conditions: [
+                    { type: 'empty_meeting' },
+                    { type: 'max_duration', timeout: 0 },
+                ],
+            }),
+        ).toEqual([
+            'end_conditions[1]: timeout must be a positive number of seconds',
+        ])
+    })
+
+    it('reports an invalid recording window', () => {
+        expect(
+            validateMeetingParams(
+                {
+                    ...validParams(),
+                    join_at: '2024-01-01T10:00:00Z',
+                    stop_recording_at: '2024-01-01T09:00:00Z',
+                },
+                Date.UTC(2024, 0, 1, 8, 0, 0),
+            ),
+        ).toEqual(['stop_recording_at: must be after join_at'])
+    })
+
+    it('rejects payloads that are not objects', () => {
+        expect(validateMeetingParams(null)).toEqual([
+            'params: must be a JSON object',
+        ])
+    })
+})
@@ -0,0 +1,254 @@
+import { withAutomaticLeaveDefaults } from '../state-machine/constants'
+import { EndConditionPolicy } from '../state-machine/end-conditions/policy'
+import { MeetingParams } from '../types'
+import { detectMeetingProvider } from './detectMeetingProvider'
+import { validateRecordingWindow } from './recordingWindow'
+
+const RECORDING_MODES = [
+    'speaker_view',
+    'gallery_view',
+    'audio_only',
+    'SpeakerView',
+    'GalleryView',
+    'AudioOnly',
+]
+const SPEECH_TO_TEXT_PROVIDERS = ['Default', 'Gladia', 'RunPod', 'Local']
+const MAX_TIMEOUT_SECONDS = 24 * 3600
+const AUDIO_FREQUENCY_RANGE = [8000, 48000]
+
+const OPTIONAL_STRINGS = [
+    'id',
+    'user_token',
+    'session_id',
+    'email',
+    'custom_branding_bot_path',
+    'translation_lang',
+    'speech_to_text_api_key',
+    'speech_to_text_language',
+    'enter_message',
+    'bots_api_key',
+    'local_recording_server_location',
+    'mp4_s3_path',
+    'environ',
+    'aws_s3_temporary_audio_bucket',
+    'zoom_sdk_id',
+    'zoom_sdk_pwd',
+    'secret',
+]
+const OPTIONAL_BOOLEANS = ['use_my_vocabulary', 'force_lang']
+const REQUIRED_TIMEOUTS = ['waiting_room_timeout', 'noone_joined_timeout']
+const OPTIONAL_TIMEOUTS = [
+    'everyone_left_timeout',
+    'in_call_not_recording_timeout',
+    'in_call_recording_timeout',
+    'recording_permission_denied_timeout',
+    'silence_timeout',
+]
+
+/**
+ * Check the raw meeting params received from the queue
+ * @returns every problem found, prefixed with the path of the field
+ */
+export function validateMeetingParams(
+    params: unknown,
+    now: number = Date.now(),
+): string[] {
+    if (!isObject(params)) {
+        return ['params: must be a JSON object']
+    }
+
+    const errors: string[] = []
+    const fail = (path: string, message: string) =>
+        errors.push(`${path}: ${message}`)
+
+    // Required fields, the meeting url may be join infos text that the
+    // provider parser extracts the link from
+    if (!isNonEmptyString(params.meeting_url)) {
+        fail('meeting_url', 'is required')
+    } else if (!isSupportedMeetingUrl(params.meeting_url)) {
+        fail('meeting_url', 'must be a Google Meet or Microsoft Teams URL')
+    }
+    if (!isNonEmptyString(params.bot_uuid)) {
+        fail('bot_uuid', 'is required')
+    }
+    if (!isNonEmptyString(params.bot_name)) {
+        fail('bot_name', 'is required')
+    }
+
+    // Optional scalars
+    for (const field of OPTIONAL_STRINGS) {
+        if (isSet(params[field]) && typeof params[field] !== 'string') {
+            fail(field, 'must be a string')
+        }
+    }
+    for (const field of OPTIONAL_BOOLEANS) {
+        if (isSet(params[field]) && typeof params[field] !== 'boolean') {
+            fail(field, 'must be a boolean')
+        }
+    }
+    if (isSet(params.user_id) && !Number.isInteger(params.user_id)) {
+        fail('user_id', 'must be an integer')
+    }
+    if (
+        isSet(params.vocabulary) &&
+        (!Array.isArray(params.vocabulary) ||
+            params.vocabulary.some((word) => typeof word !== 'string'))
+    ) {
+        fail('vocabulary', 'must be a list of strings')
+    }
+    if (isSet(params.event) && !Number.isInteger(params.event?.['id'])) {
+        fail('event.id', 'must be an integer')
+    }
+
+    // Enums
+    if (
+        isSet(params.recording_mode) &&
+        !RECORDING_MODES.includes(params.recording_mode as string)
+    ) {
+        fail('recording_mode', `must be one of ${RECORDING_MODES.join(', ')}`)
+    }
+    if (
+        isSet(params.speech_to_text_provider) &&
+        !SPEECH_TO_TEXT_PROVIDERS.includes(
+            params.speech_to_text_provider as string,
+        )
+    ) {
+        fail(
+            'speech_to_text_provider',
+            `must be one of ${SPEECH_TO_TEXT_PROVIDERS.join(', ')}`,
+        )
+    }
+
+    // URLs, left empty in local configs
+    if (
+        isFilled(params.bots_webhook_url) &&
+        !isUrl(params.bots_webhook_url, ['http:', 'https:'])
+    ) {
+        fail('bots_webhook_url', 'must be an http(s) URL')
+    }
+    for (const field of ['streaming_input', 'streaming_output']) {
+        if (isFilled(params[field]) && !isUrl(params[field], ['ws:', 'wss:'])) {
+            fail(field, 'must be a ws(s) URL')
+        }
+    }
+    if (
+        isSet(params.streaming_audio_frequency) &&
+        !(
+            Number.isInteger(params.streaming_audio_frequency) &&
+            params.streaming_audio_frequency >= AUDIO_FREQUENCY_RANGE[0] &&
+            params.streaming_audio_frequency <= AUDIO_FREQUENCY_RANGE[1]
+        )
+    ) {
+        fail(
+            'streaming_audio_frequency',
+            `must be an integer between ${AUDIO_FREQUENCY_RANGE[0]} and ${AUDIO_FREQUENCY_RANGE[1]} Hz`,
+        )
+    }
+
+    validateAutomaticLeave(params.automatic_leave, fail)
+    validateRemote(params, fail)
+    errors.push(...validateRecordingWindow(params, now))
+
+    if (isSet(params.end_conditions) && isObject(params.automatic_leave)) {
+        try {
+            EndConditionPolicy.fromParams({
+                automatic_leave: withAutomaticLeaveDefaults(
+                    params.automatic_leave as MeetingParams['automatic_leave'],
+                ),
+                end_conditions: params.end_conditions,
+            })
+        } catch (error) {
+            // Already prefixed with the path of the invalid condition
+            errors.push(
+                (error as Error).message.replace(/^Invalid parameter: /, ''),
+            )
+        }
+    }
+
+    return errors
+}
+
+function validateAutomaticLeave(
+    automaticLeave: unknown,
+    fail: (path: string, message: string) => void,
+): void {
+    if (!isObject(automaticLeave)) {
+        fail('automatic_leave', 'is required')
+        return
+    }
+    for (const field of [...REQUIRED_TIMEOUTS, ...OPTIONAL_TIMEOUTS]) {
+        const value = automaticLeave[field]
+        if (!isSet(value) && OPTIONAL_TIMEOUTS.includes(field)) {
+            continue
+        }
+        if (
+            typeof value !== 'number' ||
+            !Number.isFinite(value) ||
+            value <= 0 ||
+            value > MAX_TIMEOUT_SECONDS
+        ) {
+            fail(
+                `automatic_leave.${field}`,
+                `must be a number of seconds between 1 and ${MAX_TIMEOUT_SECONDS}`,
+            )
+        }
+    }
+}
+
+function validateRemote(
+    params: Record<string, any>,
+    fail: (path: string, message: string) => void,
+): void {
+    // Left out or null when serverless
+    if (!isSet(params.remote)) {
+        return
+    }
+    if (!isObject(params.remote)) {
+        fail('remote', 'must be an object, or null when running serverless')
+        return
+    }
+    if (!isUrl(params.remote.api_server_baseurl, ['http:', 'https:'])) {
+        fail('remote.api_server_baseurl', 'must be an http(s) URL')
+    }
+    for (const field of ['aws_s3_video_bucket', 'aws_s3_log_bucket']) {
+        if (!isNonEmptyString(params.remote[field])) {
+            fail(`remote.${field}`, 'is required')
+        }
+    }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isSet(value: unknown): boolean {
+    return value !== undefined && value !== null
+}
+
+function isFilled(value: unknown): boolean {
+    return isSet(value) && value !== ''
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim() !== ''
+}
+
+function isUrl(value: unknown, protocols: string[]): boolean {
+    if (typeof value !== 'string') {
+        return false
+    }
+    try {
+        return protocols.includes(new URL(value).protocol)
+    } catch (e) {
+        return false
+    }
+}
+
+function isSupportedMeetingUrl(url: string): boolean {
+    try {
+        detectMeetingProvider(url)
+        return true
+    } catch (e) {
+        return false
+    }
+}